@@ -0,0 +1,47 @@
+import { NextResponse, NextRequest } from "next/server";
+import { fulfillCheckoutSessionById } from "@/lib/fulfillment";
+
+/**
+ * Interface for the fulfilment request body.
+ */
+interface FulfillRequestBody {
+  /** Checkout session ID from the success redirect */
+  sessionId: string;
+}
+
+/**
+ * POST handler for fulfilling a checkout session after the payment redirect.
+ *
+ * Returns the generation job for the session, enqueuing it only if the Stripe
+ * webhook has not already done so. Repeated calls return the same job.
+ * The customer profile from the session metadata is returned with the job, so
+ * the results can be labelled with the profile that was paid for.
+ *
+ * @param req - Next.js request object containing the session ID
+ * @returns JSON response with the job ID and profile, or error message
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { sessionId }: FulfillRequestBody = await req.json();
+
+    if (!sessionId || typeof sessionId !== "string") {
+      throw new Error("Session ID is required");
+    }
+
+    const job = await fulfillCheckoutSessionById(sessionId);
+
+    return NextResponse.json(job);
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Fulfilment error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while starting interview generation";
+
+    return NextResponse.json(
+      { error: message },
+      { status: 400 }
+    );
+  }
+}
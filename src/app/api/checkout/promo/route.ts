@@ -0,0 +1,75 @@
+import { NextResponse, NextRequest } from "next/server";
+import { InterviewRequestBody, PromoCodeResponse } from "@/types";
+import { quoteWithPromoCode } from "@/lib/promo-codes";
+import { isPricingTierId } from "@/lib/pricing";
+import {
+  FormValidationError,
+  validateInterviewCount,
+  validatePromoCode,
+} from "@/lib/validation";
+import { MAX_INTERVIEW_COUNT, MIN_INTERVIEW_COUNT } from "@/constants/app";
+
+/**
+ * Interface for the promotion code request body.
+ */
+type PromoCodeRequestBody = Pick<InterviewRequestBody, "interviews" | "tier" | "promo_code">;
+
+/**
+ * POST handler for checking a promotion code before checkout.
+ *
+ * Used by the form for live feedback: looks the code up with the configured
+ * payment provider, exactly as checkout does, and returns the price of the
+ * selected batch with the discount applied.
+ *
+ * An invalid, unknown or expired code returns 400 with `errors.promoCode`.
+ *
+ * @param req - Next.js request object containing the code, interview count and tier
+ * @returns JSON response with the discounted price, or error message
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { interviews, tier, promo_code }: Partial<PromoCodeRequestBody> = await req.json();
+    const promoCode = typeof promo_code === "string" ? promo_code.trim().toUpperCase() : "";
+
+    if (!promoCode) {
+      throw new Error("Promo code is required");
+    }
+
+    const formatValidation = validatePromoCode(promoCode);
+    if (!formatValidation.isValid) {
+      throw new FormValidationError({ promoCode: formatValidation.error! });
+    }
+
+    if (
+      typeof interviews !== "number" ||
+      !validateInterviewCount(interviews, MIN_INTERVIEW_COUNT, MAX_INTERVIEW_COUNT).isValid ||
+      !isPricingTierId(tier)
+    ) {
+      throw new Error("A valid interview count and plan are required");
+    }
+
+    const { price } = await quoteWithPromoCode(interviews, tier, promoCode);
+    const response: PromoCodeResponse = { price };
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    if (error instanceof FormValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Promo code error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while checking the promo code";
+
+    return NextResponse.json(
+      { error: message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Return URL checks of the checkout route.
+ *
+ * Checkout runs with the offline mock provider, and buys a credit pack so that no
+ * form data is needed.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+import { POST } from "./route";
+
+const APP_URL = "https://app.example.com";
+
+/**
+ * Posts a credit pack checkout to the route.
+ *
+ * @param returnUrl - Requested return URL
+ * @param host - Host the request claims to be made to
+ * @returns Checkout response
+ */
+function checkout(returnUrl: string, host = new URL(APP_URL).host): Promise<Response> {
+  return POST(
+    new NextRequest(`https://${host}/api/checkout`, {
+      method: "POST",
+      body: JSON.stringify({ creditPack: "credits-20", returnUrl }),
+      headers: { Host: host, "X-Forwarded-Host": host, "X-Forwarded-Proto": "https" },
+    })
+  );
+}
+
+beforeEach(() => {
+  vi.stubEnv("NEXT_PUBLIC_PAYMENT_PROVIDER", "mock");
+  vi.stubEnv("NEXT_PUBLIC_APP_URL", APP_URL);
+  vi.stubEnv("CHECKOUT_ALLOWED_ORIGINS", "");
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("return URLs", () => {
+  it("accepts a page of the app", async () => {
+    const response = await checkout(`${APP_URL}/`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects a foreign origin", async () => {
+    const response = await checkout("https://attacker.example/");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: `Success URL must point to one of: ${APP_URL}`,
+    });
+  });
+
+  it("rejects a foreign origin matching a spoofed Host", async () => {
+    const response = await checkout("https://attacker.example/", "attacker.example");
+
+    expect(response.status).toBe(400);
+  });
+
+  it("resolves relative URLs against the app URL rather than a spoofed Host", async () => {
+    const response = await checkout("/", "attacker.example");
+    const { url } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(url).not.toContain("attacker.example");
+  });
+
+  it("only allows the configured origins when CHECKOUT_ALLOWED_ORIGINS is set", async () => {
+    vi.stubEnv("CHECKOUT_ALLOWED_ORIGINS", "https://shop.example.com, https://www.example.com");
+
+    expect((await checkout("https://www.example.com/")).status).toBe(200);
+    expect((await checkout(`${APP_URL}/`)).status).toBe(400);
+  });
+
+  it("fails closed when no origin is configured", async () => {
+    vi.stubEnv("NEXT_PUBLIC_APP_URL", "");
+
+    const response = await checkout(`${APP_URL}/`);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/CHECKOUT_ALLOWED_ORIGINS/);
+  });
+});
@@ -1,133 +1,210 @@
-import Stripe from "stripe";
 import { NextResponse, NextRequest } from "next/server";
+import {
+  CheckoutReturnUrls,
+  CreateCheckoutSessionParams,
+  InterviewRequestBody,
+} from "@/types";
+import { CHECKOUT_PROCESSED } from "@/lib/fulfillment";
+import { FormValidationError, validateInterviewRequest } from "@/lib/validation";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { getPricingTier, quotePrice } from "@/lib/pricing";
+import { quoteWithPromoCode } from "@/lib/promo-codes";
+import { resolveAccount, withAccountCookie } from "@/lib/account";
+import {
+  ReturnUrlError,
+  ReturnUrlRequest,
+  resolveReturnUrls,
+  withSessionParam,
+} from "@/lib/return-urls";
+import {
+  CHECKOUT_TYPES,
+  CREDIT_PACKS,
+  CREDIT_SESSION_PARAM,
+  DEFAULT_PRICING_TIER,
+} from "@/constants/app";
 
 /**
- * Initialize Stripe with secret key and API version.
- * Uses the latest stable API version for consistent behavior.
+ * Interface for the checkout request body.
+ * Contains either the interview form data or a credit pack, and the return URLs.
  */
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2025-01-27.acacia",
-});
+interface CheckoutRequestBody extends InterviewRequestBody, ReturnUrlRequest {
+  /** ID of the credit pack to buy instead of a single generation run */
+  creditPack?: string;
+}
 
 /**
- * Interface for the checkout request body.
+ * Error raised when the requested credit pack does not exist.
  */
-interface CheckoutRequestBody {
-  /** Job role for the interview generation */
-  role: string;
-  /** Industry sector */
-  industry: string;
-  /** Experience range (e.g., "2-7") */
-  range: string;
-  /** Company size range (e.g., "100-1000") */
-  employee_range: string;
-  /** Number of interviews to generate */
-  interviews: number;
-  /** URL to redirect to after payment */
-  returnUrl: string;
+class UnknownCreditPackError extends Error {
+  constructor(packId: string) {
+    super(
+      `Unknown credit pack '${packId}'. Available packs: ${CREDIT_PACKS.map(({ id }) => id).join(", ")}`
+    );
+    this.name = "UnknownCreditPackError";
+  }
 }
 
 /**
- * Default values for checkout session metadata.
- * These ensure consistent data even if form fields are empty.
+ * Default values for checkout session metadata not collected by the form.
  */
 const DEFAULT_CHECKOUT_VALUES = {
-  role: "Software Engineer",
-  industry: "Technology, Information and Internet",
-  range: "2-7",
-  employee_range: "100-1000",
   country: "USA",
-  processed: "no",
+  processed: CHECKOUT_PROCESSED.NO,
 } as const;
 
 /**
- * POST handler for creating Stripe checkout sessions.
- * 
+ * Builds the checkout session parameters for a single generation run,
+ * priced by the selected pricing tier and discounted by the promotion code, if any.
+ *
+ * @param body - Request body containing the interview form data
+ * @param accountId - Account placing the order
+ * @param returnUrls - Allowed success and cancel destinations
+ * @returns Promise resolving to the checkout session parameters
+ * @throws FormValidationError if the form data or promotion code is invalid
+ */
+async function buildInterviewCheckout(
+  body: Partial<CheckoutRequestBody>,
+  accountId: string,
+  { successUrl, cancelUrl }: CheckoutReturnUrls
+): Promise<CreateCheckoutSessionParams> {
+  const {
+    role,
+    industry,
+    experienceRange,
+    employeeRange,
+    interviews,
+    tier,
+    promoCode,
+  } = validateInterviewRequest(body);
+  const { price, promotion } = await quoteWithPromoCode(interviews, tier, promoCode);
+
+  return {
+    productName: `${getPricingTier(tier).label} interviews`,
+    price,
+    promotion,
+
+    // Redirect URLs after payment
+    successUrl: withSessionParam(successUrl, "session_id"),
+    cancelUrl,
+
+    // Store form data in session metadata for processing after payment
+    metadata: {
+      type: CHECKOUT_TYPES.INTERVIEWS,
+      role,
+      industry,
+      range: experienceRange,
+      employee_range: employeeRange,
+      interviews: String(interviews),
+      tier,
+      ...(promotion && { promo_code: promotion.code }),
+      account_id: accountId,
+      country: DEFAULT_CHECKOUT_VALUES.country,
+      processed: DEFAULT_CHECKOUT_VALUES.processed,
+    },
+  };
+}
+
+/**
+ * Builds the checkout session parameters for a credit pack purchase.
+ * Packs are priced like a batch of standard interviews, volume discounts included.
+ *
+ * @param packId - ID of the credit pack to buy
+ * @param accountId - Account the credits are added to
+ * @param returnUrls - Allowed success and cancel destinations
+ * @returns Checkout session parameters
+ * @throws UnknownCreditPackError if the credit pack does not exist
+ */
+function buildCreditCheckout(
+  packId: string,
+  accountId: string,
+  { successUrl, cancelUrl }: CheckoutReturnUrls
+): CreateCheckoutSessionParams {
+  const pack = CREDIT_PACKS.find(({ id }) => id === packId);
+
+  if (!pack) {
+    throw new UnknownCreditPackError(packId);
+  }
+
+  return {
+    productName: "Interview credits",
+    price: quotePrice(pack.credits, DEFAULT_PRICING_TIER),
+    promotion: null,
+    successUrl: withSessionParam(successUrl, CREDIT_SESSION_PARAM),
+    cancelUrl,
+    metadata: {
+      type: CHECKOUT_TYPES.CREDITS,
+      credits: String(pack.credits),
+      account_id: accountId,
+      processed: DEFAULT_CHECKOUT_VALUES.processed,
+    },
+  };
+}
+
+/**
+ * POST handler for creating checkout sessions.
+ *
  * This endpoint handles the payment flow for interview generation:
- * 1. Validates required environment variables
- * 2. Extracts form data from the request
- * 3. Creates a Stripe checkout session with metadata
+ * 1. Validates form data from the request with the shared form validators, and
+ *    resolves `successUrl` and `cancelUrl` (or a single `returnUrl` for both)
+ *    against the return URL allowlist (`src/lib/return-urls.ts`)
+ * 2. Prices the run with the shared pricing table (`src/lib/pricing.ts`), applying
+ *    the optional `promo_code` (recorded in the session metadata)
+ * 3. Creates a checkout session with one line item per price band, plus metadata,
+ *    through the configured payment provider (Stripe, or the offline mock provider)
  * 4. Returns the session for client-side redirection
- * 
+ *
+ * When `creditPack` is given, the session buys that credit pack for the
+ * requesting account instead, and redirects back with `credit_session_id`.
+ *
+ * Invalid form data returns 400 with `errors` keyed by form input name
+ * (role, industry, experienceRange, employeeRange, interviews, tier, promoCode).
+ * Missing or disallowed return URLs, and unknown credit packs, return 400 with
+ * the reason in `error`. Without configured return origins, every checkout fails
+ * with 500.
+ *
  * @param req - Next.js request object containing checkout data
- * @returns JSON response with Stripe session or error message
+ * @returns JSON response with checkout session or error message
  */
 export async function POST(req: NextRequest) {
   try {
-    // Validate required environment variables
-    if (!process.env.STRIPE_SECRET_KEY) {
-      throw new Error("Stripe secret key is not configured");
-    }
-    
-    if (!process.env.NEXT_PUBLIC_STRIPE_PRICE) {
-      throw new Error("Stripe price ID is not configured");
-    }
-
     // Extract and validate request body
-    const requestBody: CheckoutRequestBody = await req.json();
-    const { 
-      role, 
-      industry, 
-      range, 
-      employee_range, 
-      interviews, 
-      returnUrl 
-    } = requestBody;
-
-    // Validate required fields
-    if (!returnUrl) {
-      throw new Error("Return URL is required");
-    }
+    const requestBody: Partial<CheckoutRequestBody> = await req.json();
+    const { creditPack } = requestBody;
 
-    // Validate interview count
-    const interviewCount = interviews || 5;
-    if (interviewCount < 1 || interviewCount > 50) {
-      throw new Error("Interview count must be between 1 and 50");
-    }
+    // Only redirect back to allowed origins and pages
+    const returnUrls = resolveReturnUrls(requestBody);
 
-    // Create Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      // Only accept card payments
-      payment_method_types: ["card"],
-      
-      // Line items for the purchase
-      line_items: [
-        {
-          price: process.env.NEXT_PUBLIC_STRIPE_PRICE,
-          quantity: interviewCount,
-        },
-      ],
-      
-      // One-time payment mode
-      mode: "payment",
-      
-      // Redirect URLs after payment
-      success_url: `${returnUrl}?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${returnUrl}`,
-      
-      // Store form data in session metadata for processing after payment
-      metadata: {
-        role: role || DEFAULT_CHECKOUT_VALUES.role,
-        industry: industry || DEFAULT_CHECKOUT_VALUES.industry,
-        range: range || DEFAULT_CHECKOUT_VALUES.range,
-        employee_range: employee_range || DEFAULT_CHECKOUT_VALUES.employee_range,
-        country: DEFAULT_CHECKOUT_VALUES.country,
-        processed: DEFAULT_CHECKOUT_VALUES.processed,
-      },
-    });
-
-    return NextResponse.json(session);
+    const account = resolveAccount(req);
+    const params = creditPack === undefined
+      ? await buildInterviewCheckout(requestBody, account.id, returnUrls)
+      : buildCreditCheckout(creditPack, account.id, returnUrls);
+
+    // Create checkout session with the configured payment provider
+    const session = await getPaymentProvider().createCheckoutSession(params);
+
+    return withAccountCookie(NextResponse.json(session), account);
   } catch (error: unknown) {
     // Log error for debugging (in production, use proper logging service)
     console.error("Checkout error:", error);
-    
+
+    if (error instanceof FormValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReturnUrlError || error instanceof UnknownCreditPackError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     // Return user-friendly error message
-    const message = error instanceof Error 
-      ? error.message 
+    const message = error instanceof Error
+      ? error.message
       : "An unexpected error occurred during checkout";
-      
+
     return NextResponse.json(
-      { error: message }, 
+      { error: message },
       { status: 500 }
     );
   }
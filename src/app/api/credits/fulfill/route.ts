@@ -0,0 +1,58 @@
+import { NextResponse, NextRequest } from "next/server";
+import { fulfillCreditPurchase } from "@/lib/fulfillment";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { resolveAccount } from "@/lib/account";
+
+/**
+ * Interface for the credit fulfilment request body.
+ */
+interface FulfillCreditsRequestBody {
+  /** Checkout session ID from the credit pack success redirect */
+  sessionId: string;
+}
+
+/**
+ * POST handler for adding purchased credits after the payment redirect.
+ *
+ * Adds the credits of a paid credit pack session to the buyer's ledger, unless
+ * the Stripe webhook has already done so. Repeated calls add nothing. Sessions
+ * bought by another account than the caller's return 403, so a leaked session ID
+ * does not reveal the buyer's ledger.
+ *
+ * @param req - Next.js request object containing the session ID
+ * @returns JSON response with the credits bought and the new balance, or error message
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { sessionId }: FulfillCreditsRequestBody = await req.json();
+
+    if (!sessionId || typeof sessionId !== "string") {
+      throw new Error("Session ID is required");
+    }
+
+    const session = await getPaymentProvider().retrieveCheckoutSession(sessionId);
+
+    if (session.metadata.account_id !== resolveAccount(req).id) {
+      return NextResponse.json(
+        { error: "Checkout session belongs to another account" },
+        { status: 403 }
+      );
+    }
+
+    const balance = await fulfillCreditPurchase(session);
+
+    return NextResponse.json({
+      credits: Number(session.metadata.credits),
+      ...balance,
+    });
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Credit fulfilment error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while adding credits";
+
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, NextRequest } from "next/server";
+import { getCreditBalance } from "@/lib/credits";
+import { resolveAccount, withAccountCookie } from "@/lib/account";
+
+/**
+ * GET handler for the credit balance of the requesting account.
+ *
+ * Returns the balance with the account's ledger entries, most recent first.
+ * Creates the anonymous account cookie on first use.
+ *
+ * @param req - Next.js request object
+ * @returns JSON response with the credit balance or error message
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const account = resolveAccount(req);
+    const balance = await getCreditBalance(account.id);
+
+    return withAccountCookie(NextResponse.json(balance), account);
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Credits error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while loading credits";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto";
+import { NextResponse, NextRequest } from "next/server";
+import { InterviewProfile, InterviewRequestBody, SpendCreditsResponse } from "@/types";
+import { recordOrder } from "@/lib/orders";
+import { enqueueInterviews } from "@/lib/fulfillment";
+import { resolveAccount, withAccountCookie } from "@/lib/account";
+import { DEFAULT_PRICING_TIER } from "@/constants/app";
+import { FormValidationError, validateInterviewRequest } from "@/lib/validation";
+import {
+  consumeCredits,
+  InsufficientCreditsError,
+  refundCredits,
+} from "@/lib/credits";
+
+/**
+ * POST handler for generating interviews with prepaid credits.
+ *
+ * Skips checkout when the requesting account's balance covers the run:
+ * 1. Validates form data with the shared form validators; credits pay for the
+ *    standard tier only
+ * 2. Deducts one credit per interview from the account's ledger
+ * 3. Enqueues generation for a new credit order, returning the credits if that fails
+ * 4. Records the order so undelivered interviews can be credited back later
+ *
+ * Invalid form data returns 400 with `errors` keyed by form input name, and an
+ * insufficient balance returns 402 with the current `balance`.
+ *
+ * @param req - Next.js request object containing the interview form data
+ * @returns JSON response with the job ID and new balance, or error message
+ */
+export async function POST(req: NextRequest) {
+  const account = resolveAccount(req);
+
+  try {
+    const requestBody: Partial<InterviewRequestBody> = await req.json();
+    const {
+      role,
+      industry,
+      experienceRange,
+      employeeRange,
+      interviews,
+      tier,
+    } = validateInterviewRequest(requestBody);
+
+    // Credit packs are priced as standard interviews, so credits only pay for those
+    if (tier !== DEFAULT_PRICING_TIER) {
+      throw new FormValidationError({
+        tier: "Credits can only be spent on standard interviews",
+      });
+    }
+
+    const profile: InterviewProfile = {
+      role,
+      industry,
+      range: experienceRange,
+      employee_range: employeeRange,
+    };
+    const orderId = `credit_${randomUUID()}`;
+    const balance = await consumeCredits(account.id, interviews, orderId);
+
+    let jobId: string;
+
+    try {
+      ({ jobId } = await enqueueInterviews({ sessionId: orderId, profile, interviews }));
+    } catch (error) {
+      // Nothing will be generated, so the credits are returned straight away
+      await refundCredits(
+        account.id,
+        interviews,
+        orderId,
+        "Returned credits for a run that could not be started"
+      );
+      throw error;
+    }
+
+    // Recorded so undelivered interviews can be credited back once the job finishes
+    await recordOrder({
+      id: orderId,
+      type: "credits",
+      accountId: account.id,
+      jobId,
+      interviews,
+      profile,
+      tier,
+      amount: null,
+      currency: null,
+      promoCode: null,
+    });
+
+    const response: SpendCreditsResponse = { orderId, jobId, ...balance };
+
+    return withAccountCookie(NextResponse.json(response), account);
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Credit spending error:", error);
+
+    if (error instanceof FormValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return withAccountCookie(
+        NextResponse.json(
+          { error: error.message, balance: error.balance },
+          { status: 402 }
+        ),
+        account
+      );
+    }
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while spending credits";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
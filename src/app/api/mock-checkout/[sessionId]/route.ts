@@ -0,0 +1,62 @@
+import { NextResponse, NextRequest } from "next/server";
+import { getPaymentProviderName } from "@/lib/payment-provider";
+import {
+  cancelMockCheckoutSession,
+  completeMockCheckoutSession,
+} from "@/lib/payment-mock";
+import { PAYMENT_PROVIDERS } from "@/constants/app";
+
+/**
+ * Actions available on the fake checkout page.
+ */
+const MOCK_CHECKOUT_ACTIONS = {
+  COMPLETE: "complete",
+  CANCEL: "cancel",
+} as const;
+
+/**
+ * POST handler for the fake checkout page of the mock payment provider.
+ *
+ * Receives the page's form submission, simulates a successful payment or a
+ * cancellation, and redirects the buyer like a hosted checkout would:
+ * - complete: Marks the session as paid and redirects to its success URL
+ * - cancel: Closes the session and redirects to its cancel URL
+ *
+ * Only available when NEXT_PUBLIC_PAYMENT_PROVIDER is "mock".
+ *
+ * @param request - Next.js request object containing the form submission
+ * @param params - Route parameters containing the checkout session ID
+ * @returns Redirect to the success or cancel URL, or error message
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  if (getPaymentProviderName() !== PAYMENT_PROVIDERS.MOCK) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const { sessionId } = await params;
+    const action = (await request.formData()).get("action");
+
+    switch (action) {
+      case MOCK_CHECKOUT_ACTIONS.COMPLETE:
+        return NextResponse.redirect(completeMockCheckoutSession(sessionId), 303);
+
+      case MOCK_CHECKOUT_ACTIONS.CANCEL:
+        return NextResponse.redirect(cancelMockCheckoutSession(sessionId), 303);
+
+      default:
+        throw new Error(
+          `Unsupported action '${action}'. Supported actions: ${Object.values(MOCK_CHECKOUT_ACTIONS).join(", ")}`
+        );
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred during mock checkout";
+
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
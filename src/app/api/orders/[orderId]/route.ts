@@ -0,0 +1,42 @@
+import { NextResponse, NextRequest } from "next/server";
+import { OrderDetailsResponse } from "@/types";
+import { resolveAccount } from "@/lib/account";
+import { getAccountOrder, OrderNotFoundError } from "@/lib/order-history";
+
+/**
+ * GET handler for a single order with its generated interviews.
+ *
+ * Interviews are served from persisted job results, so past orders can be
+ * reopened or exported again. Orders of other accounts are reported as not found.
+ *
+ * @param req - Next.js request object carrying the account cookie
+ * @param params - Route parameters containing the order ID
+ * @returns JSON response with the order and its interviews, or error message
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const response: OrderDetailsResponse = await getAccountOrder(
+      resolveAccount(req).id,
+      orderId
+    );
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    if (error instanceof OrderNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Order error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while loading the order";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse, NextRequest } from "next/server";
+import { RefundOrderResponse } from "@/types";
+import { resolveAccount } from "@/lib/account";
+import { JobNotFoundError } from "@/lib/generation-jobs";
+import { getAccountRefund, retryAccountRefund } from "@/lib/refunds";
+
+/**
+ * Builds the error response of the refund endpoints.
+ *
+ * @param error - Error thrown while reading or settling the refund
+ * @returns 404 for jobs without an order of the requesting account, 400 otherwise
+ */
+function refundErrorResponse(error: unknown): NextResponse {
+  if (error instanceof JobNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  // Log error for debugging (in production, use proper logging service)
+  console.error("Refund error:", error);
+
+  const message = error instanceof Error
+    ? error.message
+    : "An unexpected error occurred while loading the refund";
+
+  return NextResponse.json(
+    { error: message },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET handler for the refund of a finished job's order.
+ *
+ * Orders are settled on the server once their job finishes: failed or partially
+ * completed jobs get their undelivered interviews refunded, through the payment
+ * provider for checkout orders, or as a credit-back for orders paid with credits.
+ * This only reads the recorded outcome, with `settled` false until the settlement
+ * is done. Jobs of other accounts are reported as not found.
+ *
+ * @param req - Next.js request object with the `jobId` query parameter and the account cookie
+ * @returns JSON response with the refund (null if nothing was owed), or error message
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const jobId = req.nextUrl.searchParams.get("jobId");
+
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const response: RefundOrderResponse = await getAccountRefund(
+      resolveAccount(req).id,
+      jobId
+    );
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    return refundErrorResponse(error);
+  }
+}
+
+/**
+ * POST handler that settles a finished job's order the server has not settled yet.
+ *
+ * Retries a refund left pending by an earlier failure, or settles an order whose
+ * job finished on an external generation service that has not been synced since.
+ * Orders are refunded at most once, however often this is called, and jobs of
+ * other accounts are reported as not found.
+ *
+ * @param req - Next.js request object with `{ jobId }` and the account cookie
+ * @returns JSON response with the settled refund (null if nothing was owed), or error message
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { jobId }: { jobId?: unknown } = await req.json();
+
+    if (typeof jobId !== "string" || !jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const response: RefundOrderResponse = await retryAccountRefund(
+      resolveAccount(req).id,
+      jobId
+    );
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    return refundErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, NextRequest } from "next/server";
+import { OrdersResponse } from "@/types";
+import { listAccountOrders } from "@/lib/order-history";
+import { resolveAccount, withAccountCookie } from "@/lib/account";
+
+/**
+ * GET handler for the order history of the requesting account.
+ *
+ * Lists every paid generation run (checkout or credits) with its customer profile,
+ * interview count, amount, refund and job status. Statuses of running jobs are
+ * refreshed from the generation service.
+ *
+ * @param req - Next.js request object carrying the account cookie
+ * @returns JSON response with the orders, most recent first, or error message
+ */
+export async function GET(req: NextRequest) {
+  const account = resolveAccount(req);
+
+  try {
+    const response: OrdersResponse = {
+      orders: await listAccountOrders(account.id),
+    };
+
+    return withAccountCookie(NextResponse.json(response), account);
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Order history error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while loading orders";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
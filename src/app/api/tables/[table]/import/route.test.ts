@@ -0,0 +1,179 @@
+/**
+ * Importing interviews through the table import route, from files made by the export
+ * route: round trips per format, column subsets, row errors and formula prefixes.
+ */
+
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+
+import { Interview } from "@/types";
+import { POST as exportTable } from "../route";
+import { POST } from "./route";
+
+/** File name and media type of each importable export format */
+const IMPORT_FILES = {
+  csv: { name: "Interviews.csv", type: "text/csv" },
+  xlsx: {
+    name: "Interviews.xlsx",
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  json: { name: "Interviews.json", type: "application/json" },
+} as const;
+
+type ImportFileFormat = keyof typeof IMPORT_FILES;
+
+/**
+ * Builds an interview whose first answer is the given value.
+ *
+ * @param answer - First answer
+ * @returns Interview with plain text in every other field
+ */
+function buildInterview(answer: string): Interview {
+  return {
+    role: "Product Manager",
+    industry: "Technology",
+    question_one: answer,
+    question_two: "Plain answer",
+    question_three: "Plain answer",
+    question_four: "Plain answer",
+    question_five: "Plain answer",
+  };
+}
+
+/**
+ * Exports interviews through the export route.
+ *
+ * @param interviews - Interviews to export
+ * @param query - Export query string
+ * @returns Exported file contents
+ */
+async function exportFile(interviews: Interview[], query: string): Promise<Blob> {
+  const response = await exportTable(
+    new NextRequest(`http://localhost/api/tables/interviews?${query}`, {
+      method: "POST",
+      body: JSON.stringify({ interviews }),
+    }),
+    { params: Promise.resolve({ table: "interviews" }) }
+  );
+
+  expect(response.status).toBe(200);
+
+  return response.blob();
+}
+
+/**
+ * Uploads a file to the import route.
+ *
+ * @param contents - File contents
+ * @param format - Import format, which sets the file name and media type
+ * @returns Import response
+ */
+function importFile(contents: BlobPart, format: ImportFileFormat): Promise<Response> {
+  const { name, type } = IMPORT_FILES[format];
+  const formData = new FormData();
+  formData.append("file", new File([contents], name, { type }));
+
+  return POST(
+    new NextRequest("http://localhost/api/tables/interviews/import", {
+      method: "POST",
+      body: formData,
+    }),
+    { params: Promise.resolve({ table: "interviews" }) }
+  );
+}
+
+describe.each(Object.keys(IMPORT_FILES) as ImportFileFormat[])("importing %s", (format) => {
+  it("reads back what was exported", async () => {
+    const interviews = [buildInterview("First answer"), buildInterview("=SUM(1,2)")];
+
+    const response = await importFile(await exportFile(interviews, `format=${format}`), format);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ interviews });
+  });
+
+  it("imports the fields left out of a column subset as empty text", async () => {
+    const interview = buildInterview("First answer");
+    const file = await exportFile([interview], `format=${format}&columns=role,question_one`);
+
+    const response = await importFile(file, format);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      interviews: [
+        {
+          role: interview.role,
+          industry: "",
+          question_one: interview.question_one,
+          question_two: "",
+          question_three: "",
+          question_four: "",
+          question_five: "",
+        },
+      ],
+    });
+  });
+});
+
+describe("formula prefixes", () => {
+  it.each(["=SUM(1,2)", "-1+2"])("strips the quote a sanitised CSV export put before %j", async (answer) => {
+    const csv = await (await exportFile([buildInterview(answer)], "format=csv")).text();
+
+    expect(csv).toContain(`"'${answer}"`);
+
+    const { interviews } = await (await importFile(csv, "csv")).json();
+
+    expect(interviews[0].question_one).toBe(answer);
+  });
+
+  it.each(["xlsx", "json"] as const)("keeps a leading quote in %s values", async (format) => {
+    const answer = "'=SUM(1,2)";
+    const file = await exportFile([buildInterview(answer)], `format=${format}`);
+
+    const { interviews } = await (await importFile(file, format)).json();
+
+    expect(interviews[0].question_one).toBe(answer);
+  });
+});
+
+describe("invalid files", () => {
+  it("reports invalid rows with their spreadsheet row numbers", async () => {
+    const csv = await (
+      await exportFile([buildInterview("First answer"), buildInterview("Second answer")], "format=csv")
+    ).text();
+    const [header, first, second] = csv.trim().split("\n");
+    const blankSecondAnswer = second.replace('"Plain answer"', '""');
+
+    const response = await importFile([header, first, blankSecondAnswer].join("\n"), "csv");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { row: 3, field: "question_two", message: "question_two is required" },
+    ]);
+  });
+
+  it("reports invalid JSON interviews with their position", async () => {
+    const json = JSON.stringify([buildInterview("First answer"), { role: 42 }]);
+
+    const response = await importFile(json, "json");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { row: 2, field: "role", message: "role must be text" },
+    ]);
+  });
+
+  it("rejects a file with none of the interview columns", async () => {
+    const response = await importFile('"#"\n"1"\n', "csv");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/none of the interview columns: role, industry/);
+  });
+
+  it("rejects unknown columns", async () => {
+    const response = await importFile('"role","notes"\n"Ada","Plain"\n', "csv");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Unknown column: notes\./);
+  });
+});
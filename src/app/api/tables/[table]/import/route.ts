@@ -0,0 +1,96 @@
+import { type NextRequest } from "next/server";
+import {
+  detectImportFormat,
+  ImportValidationError,
+  parseInterviewImport,
+} from "@/lib/import-interviews";
+import { validateTableName } from "@/lib/tables";
+import { MAX_IMPORT_FILE_SIZE } from "@/constants/app";
+
+/**
+ * Validates the uploaded file in the multipart request body.
+ *
+ * @param formData - Parsed multipart form data
+ * @returns Uploaded file
+ * @throws Error if the file is missing, empty or too large
+ */
+function validateFile(formData: FormData): File {
+  const file = formData.get("file");
+
+  if (!file || typeof file === "string") {
+    throw new Error("No file provided. Upload the export as the 'file' form field");
+  }
+
+  if (file.size === 0) {
+    throw new Error("The uploaded file is empty");
+  }
+
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error(
+      `The uploaded file exceeds the ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)} MB limit`
+    );
+  }
+
+  return file;
+}
+
+/**
+ * POST handler for importing previously exported interview data.
+ *
+ * The inverse of `POST /api/tables/[table]`. Accepts a multipart/form-data body
+ * with a `file` field containing one of:
+ * - CSV: As exported with `format=csv`
+ * - XLSX: As exported with `format=xlsx` (the "Interviews" sheet is read)
+ * - JSON: The versioned export envelope, or a bare interview array (`raw=true`)
+ *
+ * Columns are matched by field name or display label. Exports limited to a subset
+ * of columns are accepted, and the interview fields they leave out are imported as
+ * empty text. Formula-injection prefixes added by sanitised CSV exports are removed;
+ * XLSX and JSON values are imported as they are.
+ *
+ * Invalid rows are reported together as `errors`, each with the row number as
+ * shown in the source file, the affected field and a message.
+ *
+ * @param request - Next.js request object
+ * @param params - Route parameters containing table name
+ * @returns Response with the imported interviews or error details
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ table: string }> }
+) {
+  try {
+    const table = (await params).table;
+    validateTableName(table);
+
+    const formData = await request.formData().catch(() => {
+      throw new Error("Request body must be multipart/form-data");
+    });
+    const file = validateFile(formData);
+
+    const format = detectImportFormat(file.name, file.type);
+    const interviews = parseInterviewImport(await file.arrayBuffer(), format);
+
+    return Response.json({ interviews });
+  } catch (error) {
+    // Log error for debugging (use proper logging service in production)
+    console.error("Import error:", error);
+
+    if (error instanceof ImportValidationError) {
+      return Response.json(
+        { error: error.message, errors: error.rows },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return Response.json({ error: error.message }, { status: 400 });
+    }
+
+    // Fallback for unknown errors
+    return Response.json(
+      { error: "An unexpected error occurred during import" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Formula-injection protection of the table export route, per spreadsheet format,
+ * the generation metadata of JSON envelopes, and the columns of ZIP manifests.
+ */
+
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import * as XLSX from "xlsx";
+import { strFromU8, unzipSync } from "fflate";
+
+import { Interview } from "@/types";
+import { POST } from "./route";
+
+/** Answers starting with each character a spreadsheet evaluates as a formula */
+const FORMULA_VALUES = [
+  "=SUM(1,2)",
+  "+1+2",
+  "-1+2",
+  "@SUM(1,2)",
+  "\t=1+2",
+  "\r=1+2",
+];
+
+/**
+ * Builds an interview whose first answer is the given value.
+ *
+ * @param answer - First answer
+ * @returns Interview with plain text in every other field
+ */
+function buildInterview(answer: string): Interview {
+  return {
+    role: "Product Manager",
+    industry: "Technology",
+    question_one: answer,
+    question_two: "Plain answer",
+    question_three: "Plain answer",
+    question_four: "Plain answer",
+    question_five: "Plain answer",
+  };
+}
+
+/**
+ * Exports one interview through the route.
+ *
+ * @param answer - First answer of the interview
+ * @param query - Export query string
+ * @param body - Request body fields besides the interviews
+ * @returns Export response
+ */
+function exportInterview(answer: string, query: string, body: object = {}): Promise<Response> {
+  const request = new NextRequest(`http://localhost/api/tables/interviews?${query}`, {
+    method: "POST",
+    body: JSON.stringify({ interviews: [buildInterview(answer)], ...body }),
+  });
+
+  return POST(request, { params: Promise.resolve({ table: "interviews" }) });
+}
+
+/**
+ * Reads a TXT export, which is UTF-16LE text with a byte order mark.
+ *
+ * @param response - Export response
+ * @returns Decoded text
+ */
+async function readTxt(response: Response): Promise<string> {
+  return Buffer.from(await response.text(), "latin1").toString("utf16le").replace(/^\uFEFF/, "");
+}
+
+/**
+ * Finds the cells of a workbook's Interviews sheet holding the given text.
+ *
+ * @param response - XLSX export response
+ * @param text - Cell text to look for
+ * @returns Matching cells
+ */
+async function findXlsxCells(response: Response, text: string): Promise<XLSX.CellObject[]> {
+  const workbook = XLSX.read(new Uint8Array(await response.arrayBuffer()));
+  const sheet = workbook.Sheets["Interviews"];
+
+  return Object.keys(sheet)
+    .filter((address) => !address.startsWith("!"))
+    .map((address) => sheet[address] as XLSX.CellObject)
+    .filter((cell) => cell.v === text);
+}
+
+/**
+ * Reads the `index.csv` manifest of a ZIP export.
+ *
+ * @param response - ZIP export response
+ * @returns Manifest lines
+ */
+async function readManifest(response: Response): Promise<string[]> {
+  const files = unzipSync(new Uint8Array(await response.arrayBuffer()));
+
+  return strFromU8(files["index.csv"]).trim().split("\n");
+}
+
+describe.each(FORMULA_VALUES)("exporting %j", (answer) => {
+  it("prefixes the CSV cell with a quote", async () => {
+    const csv = await (await exportInterview(answer, "format=csv")).text();
+
+    expect(csv).toContain(`"'${answer}"`);
+  });
+
+  it("leaves the CSV cell unchanged with sanitize=false", async () => {
+    const csv = await (await exportInterview(answer, "format=csv&sanitize=false")).text();
+
+    expect(csv).toContain(`"${answer}"`);
+    expect(csv).not.toContain(`"'${answer}"`);
+  });
+
+  it("prefixes the TXT cell with a quote", async () => {
+    const txt = await readTxt(await exportInterview(answer, "format=txt"));
+
+    expect(txt).toContain(`"'${answer}"`);
+  });
+
+  it("leaves the TXT cell unchanged with sanitize=false", async () => {
+    const txt = await readTxt(await exportInterview(answer, "format=txt&sanitize=false"));
+
+    expect(txt).toContain(`"${answer}"`);
+    expect(txt).not.toContain(`"'${answer}"`);
+  });
+
+  it.each(["format=xlsx", "format=xlsx&sanitize=false"])(
+    "writes the XLSX cell as an unchanged string with %s",
+    async (query) => {
+      const response = await exportInterview(answer, query);
+
+      expect(response.status).toBe(200);
+
+      const cells = await findXlsxCells(response, answer);
+
+      expect(cells).toHaveLength(1);
+      expect(cells[0].t).toBe("s");
+      expect(cells[0].f).toBeUndefined();
+    }
+  );
+});
+
+describe("JSON envelope", () => {
+  it("records when the interviews were generated, apart from when they were exported", async () => {
+    const generatedAt = "2025-03-01T09:30:00.000Z";
+
+    const envelope = await (await exportInterview("Plain answer", "format=json", { generatedAt })).json();
+
+    expect(envelope.generatedAt).toBe(generatedAt);
+    expect(Date.parse(envelope.exportedAt)).toBeGreaterThan(Date.parse(generatedAt));
+  });
+
+  it("leaves the generation time empty when it is unknown", async () => {
+    const envelope = await (await exportInterview("Plain answer", "format=json")).json();
+
+    expect(envelope.generatedAt).toBeNull();
+    expect(envelope.exportedAt).toEqual(expect.any(String));
+  });
+
+  it("rejects a generation time that is not a date", async () => {
+    const response = await exportInterview("Plain answer", "format=json", { generatedAt: "yesterday" });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("ZIP manifest", () => {
+  it("lists the selected columns in export order", async () => {
+    const [header, row] = await readManifest(
+      await exportInterview("=SUM(1,2)", "format=zip&columns=question_one,role")
+    );
+
+    expect(header).toBe('"index","question_one","role","markdown","json"');
+    expect(row).toBe(
+      '"1","\'=SUM(1,2)","Product Manager","interviews/01-product-manager-technology.md",' +
+        '"interviews/01-product-manager-technology.json"'
+    );
+  });
+});
@@ -1,6 +1,15 @@
 import * as XLSX from "xlsx";
 import { type NextRequest } from "next/server";
-import { Interview } from "@/types";
+import { Interview, InterviewProfile } from "@/types";
+import { renderInterviewsPdf } from "@/lib/export-pdf";
+import { renderInterviewsDocx } from "@/lib/export-docx";
+import { renderInterviewsXlsx } from "@/lib/export-xlsx";
+import { createInterviewsZipStream } from "@/lib/export-zip";
+import { projectInterview, resolveExportColumns } from "@/lib/export-columns";
+import { neutralizeInterviewFormulas } from "@/lib/export-sanitize";
+import { renderInterviewsMarkdown } from "@/lib/export-markdown";
+import { buildExportEnvelope, EXPORT_SCHEMA_PATH } from "@/lib/export-json";
+import { validateTableName } from "@/lib/tables";
 
 /**
  * Supported export formats and their configurations.
@@ -11,6 +20,10 @@ const EXPORT_FORMATS = {
   XLSX: 'xlsx',
   JSON: 'json',
   HTML: 'html',
+  MARKDOWN: 'md',
+  PDF: 'pdf',
+  DOCX: 'docx',
+  ZIP: 'zip',
 } as const;
 
 type ExportFormat = typeof EXPORT_FORMATS[keyof typeof EXPORT_FORMATS];
@@ -21,50 +34,109 @@ type ExportFormat = typeof EXPORT_FORMATS[keyof typeof EXPORT_FORMATS];
 const CONTENT_TYPES = {
   [EXPORT_FORMATS.CSV]: 'text/csv',
   [EXPORT_FORMATS.TXT]: 'text/plain',
-  [EXPORT_FORMATS.XLSX]: 'application/vnd.ms-excel',
+  [EXPORT_FORMATS.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   [EXPORT_FORMATS.JSON]: 'application/json',
   [EXPORT_FORMATS.HTML]: 'text/html',
+  [EXPORT_FORMATS.MARKDOWN]: 'text/markdown',
+  [EXPORT_FORMATS.PDF]: 'application/pdf',
+  [EXPORT_FORMATS.DOCX]: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  [EXPORT_FORMATS.ZIP]: 'application/zip',
 } as const;
 
+/**
+ * Additional media types accepted for content negotiation, mapped to their export format.
+ */
+const ACCEPT_ALIASES: Record<string, ExportFormat> = {
+  'application/vnd.ms-excel': EXPORT_FORMATS.XLSX,
+  'text/x-markdown': EXPORT_FORMATS.MARKDOWN,
+  'application/x-zip-compressed': EXPORT_FORMATS.ZIP,
+};
+
+/**
+ * Error raised when none of the media types in the Accept header can be produced.
+ */
+class NotAcceptableError extends Error {
+  constructor(accept: string) {
+    super(`None of the requested media types are supported: ${accept}`);
+    this.name = 'NotAcceptableError';
+  }
+}
+
 /**
  * Interface for the export request body.
  */
 interface ExportRequestBody {
   /** Array of interview objects to export */
   interviews: Interview[];
+  /** Optional customer profile the interviews were generated for */
+  profile?: Partial<InterviewProfile>;
+  /** Optional ISO 8601 timestamp of when the interviews were generated */
+  generatedAt?: string | null;
 }
 
 /**
- * Valid table names that can be exported.
+ * Finds the export format producing the given media type.
+ * 
+ * @param mediaType - Media type from the Accept header (e.g., "text/csv", "text/*")
+ * @returns Matching export format, or undefined if none matches
  */
-const VALID_TABLES = ['interviews'] as const;
-type ValidTable = typeof VALID_TABLES[number];
+function findFormatForMediaType(mediaType: string): ExportFormat | undefined {
+  if (mediaType === '*/*') {
+    return EXPORT_FORMATS.HTML;
+  }
+  
+  const formats = Object.values(EXPORT_FORMATS);
+  
+  if (mediaType.endsWith('/*')) {
+    const type = mediaType.slice(0, -1);
+    return formats.find((format) => CONTENT_TYPES[format].startsWith(type));
+  }
+  
+  return formats.find((format) => CONTENT_TYPES[format] === mediaType) 
+    ?? ACCEPT_ALIASES[mediaType];
+}
 
 /**
- * Validates that the provided table name is supported.
+ * Negotiates the export format from an Accept header.
+ * Media types are tried in order of preference (q-value, then position).
  * 
- * @param table - Table name to validate
- * @throws Error if table name is invalid
+ * @param accept - Accept header value
+ * @returns Best matching export format
+ * @throws NotAcceptableError if no requested media type can be produced
  */
-function validateTableName(table: string): asserts table is ValidTable {
-  if (!table) {
-    throw new Error("Table name is required");
-  }
+function negotiateFormat(accept: string): ExportFormat {
+  const candidates = accept
+    .split(',')
+    .map((entry, position) => {
+      const [mediaType, ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+      const quality = params.find((param) => param.startsWith('q='));
+      return { mediaType, position, q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ mediaType, q }) => mediaType && q > 0)
+    .sort((a, b) => b.q - a.q || a.position - b.position);
   
-  if (!VALID_TABLES.includes(table as ValidTable)) {
-    throw new Error(`Table '${table}' not found. Supported tables: ${VALID_TABLES.join(', ')}`);
+  for (const { mediaType } of candidates) {
+    const format = findFormatForMediaType(mediaType);
+    if (format) {
+      return format;
+    }
   }
+  
+  throw new NotAcceptableError(accept);
 }
 
 /**
  * Validates the export format parameter.
+ * Without a format parameter, the format is negotiated from the Accept header.
  * 
  * @param format - Format string to validate
- * @returns Validated format or default to HTML
+ * @param accept - Accept header value, used when no format is given
+ * @returns Validated format, or HTML when neither a format nor an Accept header is given
+ * @throws NotAcceptableError if the Accept header names no supported media type
  */
-function validateFormat(format: string | null): string {
+function validateFormat(format: string | null, accept: string | null): string {
   if (!format) {
-    return EXPORT_FORMATS.HTML; // Default format
+    return accept ? negotiateFormat(accept) : EXPORT_FORMATS.HTML; // Default format
   }
   
   const validFormats = Object.values(EXPORT_FORMATS);
@@ -75,6 +147,31 @@ function validateFormat(format: string | null): string {
   return format;
 }
 
+/**
+ * Validates an optional boolean query parameter.
+ * 
+ * @param value - Raw parameter value
+ * @param name - Parameter name for error messages
+ * @param defaultValue - Value used when the parameter is absent
+ * @returns Parsed boolean
+ * @throws Error if the value is not "true" or "false"
+ */
+function validateBooleanParam(
+  value: string | null,
+  name: string,
+  defaultValue: boolean
+): boolean {
+  if (value === null) {
+    return defaultValue;
+  }
+  
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`Parameter '${name}' must be 'true' or 'false'`);
+  }
+  
+  return value === 'true';
+}
+
 /**
  * Validates the request body contains interview data.
  * 
@@ -104,15 +201,75 @@ function validateRequestBody(body: unknown): Interview[] {
   return interviews;
 }
 
+/**
+ * Resolves the customer profile for report-style exports.
+ * Missing role and industry fall back to the first interview; unknown ranges stay empty.
+ * 
+ * @param body - Validated request body
+ * @param interviews - Validated interview data
+ * @returns Complete customer profile
+ */
+function resolveProfile(body: unknown, interviews: Interview[]): InterviewProfile {
+  const { profile = {} } = body as ExportRequestBody;
+  
+  if (typeof profile !== 'object' || profile === null) {
+    throw new Error("Profile must be an object");
+  }
+  
+  return {
+    role: profile.role || interviews[0].role,
+    industry: profile.industry || interviews[0].industry,
+    range: profile.range || '',
+    employee_range: profile.employee_range || '',
+    ...(profile.country ? { country: profile.country } : {}),
+  };
+}
+
+/**
+ * Resolves when the exported interviews were generated.
+ * 
+ * @param body - Validated request body
+ * @returns Generation time, or null if the client does not know it
+ * @throws Error if the timestamp is not a valid date
+ */
+function resolveGeneratedAt(body: unknown): Date | null {
+  const { generatedAt } = body as ExportRequestBody;
+  
+  if (generatedAt === undefined || generatedAt === null) {
+    return null;
+  }
+  
+  if (typeof generatedAt !== 'string' || Number.isNaN(Date.parse(generatedAt))) {
+    throw new Error("Generation time must be an ISO 8601 timestamp");
+  }
+  
+  return new Date(generatedAt);
+}
+
 /**
  * POST handler for exporting interview data in various formats.
  * 
  * Supports multiple export formats:
  * - CSV: Comma-separated values for spreadsheet applications
  * - TXT: Tab-separated text format
- * - XLSX: Excel spreadsheet format
- * - JSON: JavaScript Object Notation for programmatic use
+ * - XLSX: Excel workbook with summary, interview and per-question sheets
+ * - JSON: Versioned envelope with generation metadata (`?raw=true` for a bare array)
  * - HTML: Web-viewable table format
+ * - MD: Markdown document with one section per interview
+ * - PDF: Paginated report with cover page and table of contents
+ * - DOCX: Word document with one styled section per interview
+ * - ZIP: One Markdown/JSON file per interview plus a manifest and the combined XLSX
+ * 
+ * The format is chosen by the `format` query parameter. Without it, the `Accept`
+ * header is negotiated against the content types above (406 if none match), and
+ * HTML is returned when no Accept header is sent.
+ * 
+ * Optional query parameters apply to every format:
+ * - columns: Comma-separated whitelist of interview fields to export
+ * - order: Comma-separated fields to move to the front, in the given order
+ * - sanitize: Set to "false" to disable formula-injection protection in CSV, TXT
+ *   and the manifest of ZIP bundles (enabled by default). XLSX cells are written as
+ *   typed strings, so they are never evaluated and keep their text either way
  * 
  * @param request - Next.js request object
  * @param params - Route parameters containing table name
@@ -130,20 +287,37 @@ export async function POST(
     
     // Validate inputs
     validateTableName(table);
-    const format = validateFormat(formatParam);
+    const format = validateFormat(formatParam, request.headers.get("Accept"));
+    const columns = resolveExportColumns(
+      searchParams.get("columns"),
+      searchParams.get("order")
+    );
+    const sanitize = validateBooleanParam(searchParams.get("sanitize"), "sanitize", true);
+    const raw = validateBooleanParam(searchParams.get("raw"), "raw", false);
     
     // Parse and validate request body
     const body = await request.json();
     const interviewData = validateRequestBody(body);
+    const generatedAt = resolveGeneratedAt(body);
     
-    // Convert to worksheet for processing
-    const worksheet = XLSX.utils.json_to_sheet(interviewData);
+    // Neutralise formula triggers in plain-text cells destined for spreadsheet applications
+    const spreadsheetData = sanitize
+      ? interviewData.map(neutralizeInterviewFormulas)
+      : interviewData;
+    
+    // Keep only the selected columns, in export order, for tabular formats
+    const rows = interviewData.map((interview) => projectInterview(interview, columns));
+    const spreadsheetRows = spreadsheetData.map((interview) => projectInterview(interview, columns));
+    
+    // Convert to worksheets for processing
+    const worksheet = XLSX.utils.json_to_sheet(rows, { header: columns });
+    const spreadsheetWorksheet = XLSX.utils.json_to_sheet(spreadsheetRows, { header: columns });
     const tableName = "Interviews"; // Display name for files
 
     // Generate response based on format
     switch (format) {
       case EXPORT_FORMATS.CSV: {
-        const csv = XLSX.utils.sheet_to_csv(worksheet, {
+        const csv = XLSX.utils.sheet_to_csv(spreadsheetWorksheet, {
           forceQuotes: true,
         });
         
@@ -157,7 +331,7 @@ export async function POST(
       }
       
       case EXPORT_FORMATS.TXT: {
-        const txt = XLSX.utils.sheet_to_txt(worksheet, {
+        const txt = XLSX.utils.sheet_to_txt(spreadsheetWorksheet, {
           forceQuotes: true,
         });
         
@@ -171,12 +345,10 @@ export async function POST(
       }
       
       case EXPORT_FORMATS.XLSX: {
-        const workbook = XLSX.utils.book_new();
-        XLSX.utils.book_append_sheet(workbook, worksheet, "Interviews");
-        
-        const buffer = XLSX.write(workbook, { 
-          type: "buffer", 
-          bookType: "xlsx" 
+        const buffer = await renderInterviewsXlsx(interviewData, {
+          profile: resolveProfile(body, interviewData),
+          generatedAt: generatedAt ?? undefined,
+          columns,
         });
         
         return new Response(buffer, {
@@ -189,9 +361,84 @@ export async function POST(
       }
       
       case EXPORT_FORMATS.JSON: {
-        return Response.json(interviewData, {
+        // Bare interview array for clients that predate the envelope format
+        if (raw) {
+          return Response.json(rows, {
+            headers: {
+              "Content-Type": CONTENT_TYPES.json,
+            },
+          });
+        }
+        
+        const envelope = buildExportEnvelope(interviewData, {
+          profile: resolveProfile(body, interviewData),
+          generatedAt,
+          columns,
+        });
+        
+        return Response.json(envelope, {
           headers: {
             "Content-Type": CONTENT_TYPES.json,
+            "Link": `<${EXPORT_SCHEMA_PATH}>; rel="describedby"`,
+          },
+        });
+      }
+      
+      case EXPORT_FORMATS.MARKDOWN: {
+        const markdown = renderInterviewsMarkdown(interviewData, tableName, columns);
+        
+        return new Response(markdown, {
+          status: 200,
+          headers: {
+            "Content-Disposition": `attachment; filename="${tableName}.md"`,
+            "Content-Type": CONTENT_TYPES.md,
+          },
+        });
+      }
+      
+      case EXPORT_FORMATS.PDF: {
+        const pdf = await renderInterviewsPdf(interviewData, {
+          title: "User Interview Report",
+          profile: resolveProfile(body, interviewData),
+          generatedAt: generatedAt ?? undefined,
+          columns,
+        });
+        
+        return new Response(Buffer.from(pdf), {
+          status: 200,
+          headers: {
+            "Content-Disposition": `attachment; filename="${tableName}.pdf"`,
+            "Content-Type": CONTENT_TYPES.pdf,
+          },
+        });
+      }
+      
+      case EXPORT_FORMATS.DOCX: {
+        const docx = await renderInterviewsDocx(interviewData, tableName, columns);
+        
+        return new Response(docx, {
+          status: 200,
+          headers: {
+            "Content-Disposition": `attachment; filename="${tableName}.docx"`,
+            "Content-Type": CONTENT_TYPES.docx,
+          },
+        });
+      }
+      
+      case EXPORT_FORMATS.ZIP: {
+        const archive = await createInterviewsZipStream(interviewData, {
+          tableName,
+          profile: resolveProfile(body, interviewData),
+          generatedAt: generatedAt ?? undefined,
+          columns,
+          neutralizeFormulas: sanitize,
+        });
+        
+        return new Response(archive, {
+          status: 200,
+          headers: {
+            "Content-Disposition": `attachment; filename="${tableName}.zip"`,
+            "Content-Type": CONTENT_TYPES.zip,
           },
         });
       }
@@ -213,6 +460,16 @@ export async function POST(
     console.error("Export error:", error);
     
     // Return appropriate error response
+    if (error instanceof NotAcceptableError) {
+      return Response.json(
+        { 
+          error: error.message, 
+          supported: Object.values(CONTENT_TYPES),
+        },
+        { status: 406 }
+      );
+    }
+    
     if (error instanceof Error) {
       return new Response(
         JSON.stringify({ error: error.message }), 
@@ -0,0 +1,109 @@
+import { NextResponse, NextRequest } from "next/server";
+import { JobEvent } from "@/types";
+import { JobNotFoundError } from "@/lib/generation-jobs";
+import { watchGenerationJob } from "@/lib/generation-worker";
+import { JOB_EVENTS_HEARTBEAT_INTERVAL } from "@/constants/app";
+
+/**
+ * Formats a job event as a Server-Sent Event.
+ *
+ * @param event - Job event
+ * @returns Event named by its type, with its data as JSON
+ */
+function formatEvent({ type, data }: JobEvent): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * GET handler of the in-repo generation service for a job's event stream.
+ *
+ * Streams Server-Sent Events: the job's current state first, then `interview`
+ * after each interview is generated or skipped, and finally `completed` or
+ * `failed` with the job status, after which the stream ends. Comments are sent
+ * every `JOB_EVENTS_HEARTBEAT_INTERVAL` to keep idle connections open. Unknown
+ * jobs return 404.
+ *
+ * @param req - Next.js request object, whose signal ends the stream when the client leaves
+ * @param params - Route parameters containing the job ID
+ * @returns Event stream response, or JSON error message
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const encoder = new TextEncoder();
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let unsubscribe = () => {};
+    let closed = false;
+
+    const send = (text: string) => {
+      if (!closed) {
+        controller.enqueue(encoder.encode(text));
+      }
+    };
+
+    const heartbeat = setInterval(() => send(": keep-alive\n\n"), JOB_EVENTS_HEARTBEAT_INTERVAL);
+    const stop = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+      },
+      cancel: stop,
+    });
+    req.signal.addEventListener("abort", stop);
+
+    try {
+      const unsubscribeJob = await watchGenerationJob(jobId, (event) => {
+        send(formatEvent(event));
+
+        if (event.type === "completed" || event.type === "failed") {
+          stop();
+          controller.close();
+        }
+      });
+
+      // The job may have already finished while subscribing
+      if (closed) {
+        unsubscribeJob();
+      } else {
+        unsubscribe = unsubscribeJob;
+      }
+    } catch (error) {
+      stop();
+      throw error;
+    }
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stops proxies such as nginx from buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Interview events error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while streaming the job events";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
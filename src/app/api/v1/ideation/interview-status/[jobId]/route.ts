@@ -0,0 +1,39 @@
+import { NextResponse, NextRequest } from "next/server";
+import { JobStatus } from "@/types";
+import { JobNotFoundError } from "@/lib/generation-jobs";
+import { getGenerationJobStatus } from "@/lib/generation-worker";
+
+/**
+ * GET handler of the in-repo generation service for a job's status.
+ *
+ * Returns a `JobStatus`: `progress` while pending, the interviews as `data` once
+ * completed, or the `error` once failed. Unknown jobs return 404.
+ *
+ * @param _req - Next.js request object
+ * @param params - Route parameters containing the job ID
+ * @returns JSON response with the job status, or error message
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const status: JobStatus = await getGenerationJobStatus(jobId);
+
+    return NextResponse.json(status);
+  } catch (error: unknown) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Interview status error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while loading the job status";
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
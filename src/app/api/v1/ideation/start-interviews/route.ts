@@ -0,0 +1,39 @@
+import { NextResponse, NextRequest } from "next/server";
+import { JobResponse, StartInterviewsRequest } from "@/types";
+import { FormValidationError } from "@/lib/validation";
+import { startGenerationJob } from "@/lib/generation-worker";
+
+/**
+ * POST handler of the in-repo generation service for starting a job.
+ *
+ * Accepts a `StartInterviewsRequest`: a paid checkout session ID, whose profile,
+ * interview count and plan are read from the session metadata, or a credit order
+ * ID with its profile and count, which must have been paid for with credits.
+ * Generation runs in the background; starting the same session twice returns
+ * the existing job.
+ *
+ * Errors are returned as `{ message }` with status 400, like the external
+ * generation API this route stands in for.
+ *
+ * @param req - Next.js request object containing the start request
+ * @returns JSON response with the job ID, or error message
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const request: Partial<StartInterviewsRequest> = await req.json();
+    const response: JobResponse = await startGenerationJob(request);
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Start interviews error:", error);
+
+    const message = error instanceof FormValidationError
+      ? Object.values(error.errors).join(". ")
+      : error instanceof Error
+        ? error.message
+        : "An unexpected error occurred while starting interview generation";
+
+    return NextResponse.json({ message }, { status: 400 });
+  }
+}
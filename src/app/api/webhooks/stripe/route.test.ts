@@ -0,0 +1,198 @@
+/**
+ * Stripe webhook handling of signed fixture events.
+ *
+ * Fixtures are signed with the webhook secret the way Stripe signs deliveries, and
+ * posted to the route. Stripe's API and the generation worker are replaced, so the
+ * checks run offline.
+ */
+
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import type Stripe from "stripe";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+import { CheckoutSession } from "@/types";
+import { getStripe, stripePaymentProvider, toCheckoutSession } from "@/lib/payment-stripe";
+import checkoutCompleted from "./fixtures/checkout-session-completed.json";
+import creditsCheckoutCompleted from "./fixtures/credits-checkout-session-completed.json";
+
+const WEBHOOK_SECRET = "whsec_test_fixture";
+
+const { startGenerationJob } = vi.hoisted(() => ({
+  startGenerationJob: vi.fn(async () => ({ jobId: "job_test_fixture" })),
+}));
+vi.mock("@/lib/generation-worker", () => ({ startGenerationJob }));
+
+/** Checkout sessions as Stripe currently holds them, by session ID */
+const sessions = new Map<string, CheckoutSession>();
+
+let POST: typeof import("./route").POST;
+let dataDir: string;
+
+/**
+ * Posts an event to the webhook route, signed with the webhook secret.
+ *
+ * @param event - Event fixture
+ * @param tamper - Rewrites the payload after signing, to simulate tampering
+ * @returns Webhook response
+ */
+function deliver(event: object, tamper?: (payload: string) => string): Promise<Response> {
+  const payload = JSON.stringify(event);
+  const signature = getStripe().webhooks.generateTestHeaderString({
+    payload,
+    secret: WEBHOOK_SECRET,
+  });
+
+  return POST(
+    new NextRequest("http://localhost/api/webhooks/stripe", {
+      method: "POST",
+      body: tamper ? tamper(payload) : payload,
+      headers: { "Stripe-Signature": signature },
+    })
+  );
+}
+
+/**
+ * Makes a fixture's session retrievable, as Stripe holds it after checkout.
+ * The fixture is copied, so metadata updates never leak into later deliveries.
+ *
+ * @param event - Event fixture
+ */
+function createSession(event: { data: { object: object } }): void {
+  const session = toCheckoutSession(
+    structuredClone(event.data.object) as Stripe.Checkout.Session
+  );
+  sessions.set(session.id, session);
+}
+
+beforeAll(async () => {
+  // Stores read DATA_DIR when their modules load, so the route is imported afterwards
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "webhook-test-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_fixture");
+  vi.stubEnv("STRIPE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+  vi.stubEnv("NEXT_PUBLIC_PAYMENT_PROVIDER", "stripe");
+  vi.stubEnv("NEXT_PUBLIC_API_URL", "");
+
+  vi.spyOn(stripePaymentProvider, "retrieveCheckoutSession").mockImplementation(
+    async (sessionId) => structuredClone(sessions.get(sessionId)!)
+  );
+  vi.spyOn(stripePaymentProvider, "updateCheckoutSessionMetadata").mockImplementation(
+    async (sessionId, metadata) => {
+      Object.assign(sessions.get(sessionId)!.metadata, metadata);
+    }
+  );
+
+  ({ POST } = await import("./route"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  sessions.clear();
+  startGenerationJob.mockClear();
+});
+
+describe("checkout.session.completed", () => {
+  it("starts generation for a paid session", async () => {
+    createSession(checkoutCompleted);
+
+    const response = await deliver(checkoutCompleted);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, jobId: "job_test_fixture" });
+    expect(startGenerationJob).toHaveBeenCalledOnce();
+    expect(sessions.get("cs_test_interviews")!.metadata).toMatchObject({
+      processed: "yes",
+      job_id: "job_test_fixture",
+    });
+  });
+
+  it("reuses the job when the event is delivered again", async () => {
+    createSession(checkoutCompleted);
+    sessions.get("cs_test_interviews")!.metadata.processed = "yes";
+    sessions.get("cs_test_interviews")!.metadata.job_id = "job_test_fixture";
+
+    // The payload still says the session is unprocessed
+    const response = await deliver(checkoutCompleted);
+
+    expect(await response.json()).toEqual({ received: true, jobId: "job_test_fixture" });
+    expect(startGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("reuses the recorded order when the session metadata is stale", async () => {
+    createSession(checkoutCompleted);
+    await deliver(checkoutCompleted);
+    startGenerationJob.mockClear();
+
+    // As if the metadata update had been lost after the order was recorded
+    createSession(checkoutCompleted);
+    const response = await deliver(checkoutCompleted);
+
+    expect(await response.json()).toEqual({ received: true, jobId: "job_test_fixture" });
+    expect(startGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("does not enqueue again when a delivery is retried after the metadata update failed", async () => {
+    const event = structuredClone(checkoutCompleted);
+    event.data.object.id = "cs_test_metadata_failure";
+    createSession(event);
+    vi.mocked(stripePaymentProvider.updateCheckoutSessionMetadata).mockRejectedValueOnce(
+      new Error("Stripe is unavailable")
+    );
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+
+    expect((await deliver(event)).status).toBe(500);
+
+    const response = await deliver(event);
+
+    expect(await response.json()).toEqual({ received: true, jobId: "job_test_fixture" });
+    expect(startGenerationJob).toHaveBeenCalledOnce();
+    expect(sessions.get("cs_test_metadata_failure")!.metadata).toMatchObject({
+      processed: "yes",
+      job_id: "job_test_fixture",
+    });
+  });
+
+  it("adds the credits of a credit pack session once", async () => {
+    createSession(creditsCheckoutCompleted);
+
+    await deliver(creditsCheckoutCompleted);
+    const response = await deliver(creditsCheckoutCompleted);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, balance: 20 });
+    expect(startGenerationJob).not.toHaveBeenCalled();
+  });
+});
+
+describe("signature verification", () => {
+  it("rejects a payload changed after signing", async () => {
+    createSession(checkoutCompleted);
+
+    const response = await deliver(checkoutCompleted, (payload) =>
+      payload.replace('"payment_status":"paid"', '"payment_status":"unpaid"')
+    );
+
+    expect(response.status).toBe(400);
+    expect(startGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unsigned payload", async () => {
+    const response = await POST(
+      new NextRequest("http://localhost/api/webhooks/stripe", {
+        method: "POST",
+        body: JSON.stringify(checkoutCompleted),
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Missing Stripe-Signature header" });
+  });
+});
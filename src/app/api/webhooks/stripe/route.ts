@@ -0,0 +1,108 @@
+import type Stripe from "stripe";
+import { NextResponse, NextRequest } from "next/server";
+import {
+  fulfillCheckoutSession,
+  fulfillCreditPurchase,
+  isCreditPurchase,
+} from "@/lib/fulfillment";
+import { getStripe, stripePaymentProvider } from "@/lib/payment-stripe";
+
+/**
+ * Verifies the Stripe signature and parses the webhook event.
+ *
+ * @param payload - Raw request body, exactly as sent by Stripe
+ * @param signature - Value of the `Stripe-Signature` header
+ * @returns Verified Stripe event
+ * @throws Error if the signature is missing or invalid
+ */
+function constructEvent(payload: string, signature: string | null): Stripe.Event {
+  if (!signature) {
+    throw new Error("Missing Stripe-Signature header");
+  }
+
+  return getStripe().webhooks.constructEvent(
+    payload,
+    signature,
+    process.env.STRIPE_WEBHOOK_SECRET!
+  );
+}
+
+/**
+ * POST handler for Stripe webhook events.
+ *
+ * Fulfils paid checkout sessions server-side, so interviews are generated even if
+ * the buyer never returns to the app after paying:
+ * 1. Verifies the event signature against `STRIPE_WEBHOOK_SECRET`
+ * 2. On `checkout.session.completed`, retrieves the session from Stripe, since the
+ *    event carries it as it was when the event was created and retried deliveries
+ *    would not see that it has since been processed
+ * 3. Enqueues generation for paid sessions, or adds the credits of paid credit
+ *    pack sessions to the buyer's ledger
+ * 4. Marks the session as processed so the redirect path reuses the same job
+ *
+ * Other event types are acknowledged and ignored. Fulfilment failures return 500
+ * so that Stripe retries the delivery.
+ *
+ * @param req - Next.js request object containing the signed event
+ * @returns JSON acknowledgement or error message
+ */
+export async function POST(req: NextRequest) {
+  // Validate required environment variables
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    console.error("Webhook error: Stripe webhook secret is not configured");
+    return NextResponse.json(
+      { error: "Stripe webhook secret is not configured" },
+      { status: 500 }
+    );
+  }
+
+  let event: Stripe.Event;
+
+  try {
+    // Signatures are computed over the raw body, so it must not be re-serialised
+    event = constructEvent(await req.text(), req.headers.get("stripe-signature"));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid webhook payload";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = await stripePaymentProvider.retrieveCheckoutSession(
+          event.data.object.id
+        );
+
+        // Delayed payment methods complete the session before the payment succeeds
+        if (session.paymentStatus !== "paid") {
+          break;
+        }
+
+        if (isCreditPurchase(session)) {
+          const { balance } = await fulfillCreditPurchase(session);
+          return NextResponse.json({ received: true, balance });
+        }
+
+        const { jobId } = await fulfillCheckoutSession(session);
+        return NextResponse.json({ received: true, jobId });
+      }
+
+      default:
+        break;
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error: unknown) {
+    // Log error for debugging (in production, use proper logging service)
+    console.error("Webhook error:", error);
+
+    const message = error instanceof Error
+      ? error.message
+      : "An unexpected error occurred while handling the webhook";
+
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { notFound } from "next/navigation";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatPrice } from "@/lib/pricing";
+import { getMockCheckoutSession, MockCheckoutSession } from "@/lib/payment-mock";
+import { getPaymentProviderName } from "@/lib/payment-provider";
+import { API_ENDPOINTS, PAYMENT_PROVIDERS } from "@/constants/app";
+
+/**
+ * Props interface for the MockCheckout page component.
+ */
+interface MockCheckoutProps {
+  /** Route parameters containing the checkout session ID */
+  params: Promise<{ sessionId: string }>;
+}
+
+/**
+ * Finds the open mock session for the page, if the mock provider is enabled.
+ *
+ * @param sessionId - Checkout session ID from the URL
+ * @returns Open mock session, or undefined if unavailable
+ */
+function findOpenSession(sessionId: string): MockCheckoutSession | undefined {
+  if (getPaymentProviderName() !== PAYMENT_PROVIDERS.MOCK) {
+    return undefined;
+  }
+
+  try {
+    const session = getMockCheckoutSession(sessionId);
+    return session.status === "open" ? session : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fake hosted checkout page served by the mock payment provider.
+ *
+ * Shows the order from the checkout session and lets the buyer simulate a
+ * successful payment or a cancellation, without Stripe keys or network access.
+ * Returns 404 unless NEXT_PUBLIC_PAYMENT_PROVIDER is "mock".
+ *
+ * @param props - Component props
+ * @param props.params - Route parameters containing the checkout session ID
+ * @returns JSX element representing the fake checkout page
+ */
+export default async function MockCheckout({ params }: MockCheckoutProps) {
+  const { sessionId } = await params;
+  const session = findOpenSession(sessionId);
+
+  if (!session) {
+    notFound();
+  }
+
+  const { metadata, price } = session;
+  const details = [
+    { label: "Product", value: session.productName },
+    { label: "Role", value: metadata.role },
+    { label: "Industry", value: metadata.industry },
+    { label: "Experience", value: metadata.range },
+    { label: "Company Size", value: metadata.employee_range },
+    { label: "Quantity", value: String(price.interviews) },
+    {
+      label: `Discount (${price.promoCode})`,
+      value: price.discount && `-${formatPrice(price.discount, price.currency)}`,
+    },
+    { label: "Total", value: formatPrice(price.total, price.currency) },
+  ].filter(({ value }) => value);
+
+  return (
+    <div className="flex min-h-svh items-center justify-center bg-muted p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Mock Checkout</CardTitle>
+          <CardDescription>
+            Test mode. No payment will be taken.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            {details.map(({ label, value }) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-right font-medium">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+        <CardFooter>
+          <form
+            method="post"
+            action={`${API_ENDPOINTS.MOCK_CHECKOUT}/${session.id}`}
+            className="flex w-full gap-2"
+          >
+            <Button
+              type="submit"
+              name="action"
+              value="cancel"
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" name="action" value="complete" className="flex-1">
+              Pay
+            </Button>
+          </form>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the mock checkout page.
+ */
+export const metadata = {
+  title: "Mock Checkout - AI Interview Generator",
+};
@@ -0,0 +1,45 @@
+import Link from "next/link";
+
+import { ErrorBoundary } from "@/components/error-boundary";
+import { OrderHistory } from "@/components/order-history";
+
+/**
+ * Order history page.
+ *
+ * Lists the current account's past purchases, paid through checkout or with
+ * credits, and lets the user reopen or download the interviews of any completed
+ * order. Orders belong to the anonymous account cookie, so they are listed in the
+ * browser they were placed from.
+ *
+ * @returns JSX element representing the order history page
+ */
+export default function Orders() {
+  return (
+    <ErrorBoundary>
+      <div className="min-h-svh bg-muted p-6 md:p-10">
+        <div className="mx-auto flex max-w-6xl flex-col gap-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex flex-col gap-1">
+              <h1 className="text-2xl font-bold">Order history</h1>
+              <p className="text-sm text-muted-foreground">
+                Reopen or download the interviews from your past orders
+              </p>
+            </div>
+            <Link href="/" className="text-sm underline-offset-4 hover:underline">
+              Back to generator
+            </Link>
+          </div>
+          <OrderHistory />
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
+
+/**
+ * Metadata for the order history page.
+ */
+export const metadata = {
+  title: "Order history - AI Interview Generator",
+  description: "Past interview orders and their generated interviews.",
+};
@@ -1,6 +1,5 @@
-import VideoHero from "@/components/video-hero";
 import { InterviewForm } from "@/components/interview-form";
-import { InterviewTable } from "@/components/interview-table";
+import { InterviewResults } from "@/components/interview-results";
 import { ErrorBoundary } from "@/components/error-boundary";
 
 /**
@@ -21,8 +20,8 @@ interface HomeProps {
  * - Integration with Stripe payment flow via session_id parameter
  * 
  * The page automatically switches between showing the video hero (default state)
- * and the interview table (after successful payment) based on the presence of
- * a session_id in the URL parameters.
+ * and the interview table, which is shown after successful payment (based on the
+ * presence of a session_id in the URL parameters) or once interviews are imported.
  * 
  * Layout:
  * - Desktop: Two-column grid layout
@@ -51,13 +50,7 @@ export default async function Home({ searchParams }: HomeProps) {
         
         {/* Right column: Video hero or interview results */}
         <div className="relative hidden bg-muted lg:block">
-          {sessionId ? (
-            // Show interview table after successful payment
-            <InterviewTable sessionId={sessionId} />
-          ) : (
-            // Show video hero by default
-            <VideoHero />
-          )}
+          <InterviewResults sessionId={sessionId} />
         </div>
       </div>
     </ErrorBoundary>
@@ -0,0 +1,70 @@
+"use client";
+
+import { Check, Loader2 } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/context/AppProvider";
+import { BUTTON_TEXT } from "@/constants/app";
+
+/**
+ * ActiveJobsMenu component indicating the jobs started in this browser whose
+ * results have not been shown yet.
+ *
+ * This component provides:
+ * - A count of active jobs, shown next to the credit balance while there are any
+ * - The profile and start time of each job, marking the one being shown
+ * - Switching the results table to another job, to see its progress or results
+ *
+ * @returns JSX dropdown menu with the active jobs, or nothing when there are none
+ */
+export function ActiveJobsMenu() {
+  const { activeJobs, jobId, resumeJob } = useApp();
+
+  if (activeJobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          aria-label={`${activeJobs.length} active job${activeJobs.length === 1 ? "" : "s"}`}
+        >
+          <Loader2 className="animate-spin" />
+          {activeJobs.length}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{BUTTON_TEXT.ACTIVE_JOBS}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {activeJobs.map((job) => (
+          <DropdownMenuItem
+            key={job.jobId}
+            onClick={() => job.jobId !== jobId && resumeJob(job)}
+          >
+            {job.jobId === jobId ? <Check /> : <span className="w-4" />}
+            <span className="capitalize">
+              {job.profile ? `${job.profile.role}, ${job.profile.industry}` : job.sessionId}
+            </span>
+            <span className="ml-auto pl-4 text-muted-foreground">
+              {new Date(job.startedAt).toLocaleString([], {
+                dateStyle: "short",
+                timeStyle: "short",
+              })}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { Columns3 } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useApp } from "@/context/AppProvider";
+import { Button } from "@/components/ui/button";
+import { toggleExportColumn } from "@/lib/export-columns";
+import { INTERVIEW_COLUMNS } from "@/constants/app";
+
+/**
+ * Props interface for the ColumnPicker component.
+ */
+interface ColumnPickerProps {
+  /** Whether the picker trigger is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * ColumnPicker component for choosing which interview fields are exported.
+ *
+ * The selection is stored in the global app context, so it applies to both
+ * the Download dropdown and the per-row export context menu.
+ *
+ * @param props - Component props
+ * @param props.disabled - Whether the picker trigger is disabled
+ * @returns JSX dropdown menu with one checkbox per interview field
+ */
+export function ColumnPicker({ disabled }: ColumnPickerProps) {
+  const { exportColumns, setExportColumns } = useApp();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          disabled={disabled}
+          aria-label="Choose export columns"
+        >
+          <Columns3 />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export columns</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {INTERVIEW_COLUMNS.map(({ field, label }) => (
+          <DropdownMenuCheckboxItem
+            key={field}
+            checked={exportColumns.includes(field)}
+            // Keep the menu open so several columns can be toggled in a row
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={() =>
+              setExportColumns((columns) => toggleExportColumn(columns, field))
+            }
+          >
+            {label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
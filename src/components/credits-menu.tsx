@@ -0,0 +1,168 @@
+"use client";
+
+import { Coins } from "lucide-react";
+import { useEffect, useRef } from "react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { useCredits } from "@/hooks/use-credits";
+import { getCheckoutReturnUrls, redirectToCheckout } from "@/lib/payment-client";
+import { formatPrice, quotePrice } from "@/lib/pricing";
+import {
+  API_ENDPOINTS,
+  BUTTON_TEXT,
+  CREDIT_PACKS,
+  CREDIT_SESSION_PARAM,
+  DEFAULT_PRICING_TIER,
+  TOAST_MESSAGES,
+} from "@/constants/app";
+
+/**
+ * Props interface for the CreditsMenu component.
+ */
+interface CreditsMenuProps {
+  /** Whether the menu trigger is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * CreditsMenu component showing the remaining credit balance.
+ *
+ * This component provides:
+ * - The current balance of the account, shown next to the Generate button
+ * - Buying credit packs through the existing checkout flow, priced like standard interviews
+ * - Adding purchased credits when the buyer returns with `credit_session_id`
+ *
+ * @param props - Component props
+ * @param props.disabled - Whether the menu trigger is disabled
+ * @returns JSX dropdown menu with the balance and credit packs
+ */
+export function CreditsMenu({ disabled }: CreditsMenuProps) {
+  const { toast } = useToast();
+  const { balance, mutate } = useCredits();
+
+  // Guards against adding the same purchase twice when effects run twice in development
+  const fulfilledSession = useRef<string | null>(null);
+
+  /**
+   * Adds purchased credits after returning from checkout.
+   * Removes the session ID from the URL to prevent re-triggering.
+   */
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const sessionId = url.searchParams.get(CREDIT_SESSION_PARAM);
+
+    if (!sessionId || fulfilledSession.current === sessionId) {
+      return;
+    }
+
+    fulfilledSession.current = sessionId;
+    url.searchParams.delete(CREDIT_SESSION_PARAM);
+    window.history.replaceState({}, "", url);
+
+    const fulfill = async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.FULFILL_CREDITS, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to add credits");
+        }
+
+        await mutate({ balance: result.balance, entries: result.entries }, false);
+        toast({
+          title: TOAST_MESSAGES.CREDITS_ADDED_TITLE,
+          description: `${result.credits} credits added. Balance: ${result.balance} credits.`,
+          variant: "default",
+        });
+      } catch (error) {
+        toast({
+          title: TOAST_MESSAGES.CREDITS_ERROR_TITLE,
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      }
+    };
+
+    fulfill();
+  }, [mutate, toast]);
+
+  /**
+   * Starts checkout for a credit pack.
+   *
+   * @param packId - ID of the credit pack to buy
+   */
+  const handleBuyCredits = async (packId: string): Promise<void> => {
+    try {
+      const response = await fetch(API_ENDPOINTS.CHECKOUT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          creditPack: packId,
+          ...getCheckoutReturnUrls(),
+        }),
+      });
+      const session = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          session.error || `Checkout request failed with status: ${response.status}`
+        );
+      }
+
+      await redirectToCheckout(session);
+    } catch (error) {
+      toast({
+        title: TOAST_MESSAGES.CHECKOUT_ERROR_TITLE,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          aria-label={`${balance} credits remaining`}
+        >
+          <Coins />
+          {balance}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          {balance} credit{balance === 1 ? "" : "s"} remaining
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {CREDIT_PACKS.map((pack) => {
+          const { total, currency } = quotePrice(pack.credits, DEFAULT_PRICING_TIER);
+
+          return (
+            <DropdownMenuItem key={pack.id} onClick={() => handleBuyCredits(pack.id)}>
+              {BUTTON_TEXT.BUY_CREDITS}: {pack.credits}
+              <span className="ml-auto pl-4 text-muted-foreground">
+                {formatPrice(total, currency)}
+              </span>
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
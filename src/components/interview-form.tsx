@@ -1,8 +1,8 @@
 "use client";
 
-import { Loader2 } from "lucide-react";
-import { useState, useRef } from "react";
-import { loadStripe } from "@stripe/stripe-js";
+import { Loader2, Upload } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState, useRef } from "react";
 import { useFeatureFlagEnabled } from "posthog-js/react";
 
 import {
@@ -19,18 +19,36 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  InterviewFormErrors,
+  InterviewFormValues,
+  InterviewRequestBody,
+  PricingTierId,
+  SpendCreditsResponse,
+} from "@/types";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useApp } from "@/context/AppProvider";
+import { useToast } from "@/hooks/use-toast";
+import { useCredits } from "@/hooks/use-credits";
+import { usePromoCode } from "@/hooks/use-promo-code";
+import { useFormDraft } from "@/hooks/use-form-draft";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { ColumnPicker } from "@/components/column-picker";
+import { CreditsMenu } from "@/components/credits-menu";
+import { ActiveJobsMenu } from "@/components/active-jobs-menu";
+import { validateInterviewForm } from "@/lib/validation";
+import { formatPrice, quotePrice } from "@/lib/pricing";
+import { getCheckoutReturnUrls, redirectToCheckout } from "@/lib/payment-client";
 import { interviews as defaultInterviews } from "@/data/interviews";
 import { 
+  buildExportPath,
   handleFileExport, 
-  makeExportRequest 
+  makeExportRequest,
+  makeImportRequest,
 } from "@/lib/export-utils";
 import {
-  DEFAULT_INTERVIEW_COUNT,
   MIN_INTERVIEW_COUNT,
   MAX_INTERVIEW_COUNT,
   INTERVIEW_COUNT_STEP,
@@ -44,16 +62,15 @@ import {
   COMPANY_SIZE_PATTERN,
   BUTTON_TEXT,
   API_ENDPOINTS,
+  TOAST_MESSAGES,
+  IMPORT_FILE_ACCEPT,
+  DEFAULT_PRICING_TIER,
+  PRICING_TIERS,
+  ORDERS_PAGE_PATH,
+  CHECKOUT_CANCELLED_PARAM,
+  CHECKOUT_CANCELLED_VALUE,
 } from "@/constants/app";
 
-/**
- * Initialize Stripe with the publishable key from environment variables.
- * This promise is created once and reused for all Stripe operations.
- */
-const stripePromise = loadStripe(
-  process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!
-);
-
 /**
  * Props interface for the InterviewForm component.
  */
@@ -62,14 +79,59 @@ interface InterviewFormProps extends React.ComponentPropsWithoutRef<"form"> {
   className?: string;
 }
 
+/**
+ * Props interface for the FieldError component.
+ */
+interface FieldErrorProps {
+  /** ID referenced by the input's aria-describedby */
+  id: string;
+  /** Validation message, if the field is invalid */
+  message?: string;
+}
+
+/**
+ * Text inputs of the form, edited as free text.
+ */
+type TextField = "role" | "industry" | "experienceRange" | "employeeRange";
+
+/**
+ * Inline validation message shown below a form field.
+ * 
+ * @param props - Component props
+ * @param props.id - ID referenced by the input's aria-describedby
+ * @param props.message - Validation message, if the field is invalid
+ * @returns JSX paragraph with the message, or null when the field is valid
+ */
+function FieldError({ id, message }: FieldErrorProps) {
+  if (!message) {
+    return null;
+  }
+  
+  return (
+    <p id={id} className="text-sm text-destructive">
+      {message}
+    </p>
+  );
+}
+
 /**
  * InterviewForm component that handles user input for generating AI interviews.
  * 
  * This component provides:
- * - Form inputs for role, industry, experience, and company size
+ * - Form inputs for role, industry, experience, and company size, kept as a draft
+ *   in session storage so they are restored after returning from checkout
+ * - Inline field errors from the shared validators, on the client and from the checkout route
  * - Slider for selecting number of interviews to generate
- * - Integration with Stripe for payment processing
+ * - Pricing tier selection with a price preview that follows the slider
+ * - Optional promo code, checked live and reflected in the price preview
+ * - Checkout through the configured payment provider (Stripe or the offline mock)
+ * - A notice when the buyer returns from a cancelled checkout
+ * - Paying with prepaid credits when the balance covers the run, with the balance
+ *   shown next to the Generate button
+ * - The jobs still running or waiting to be shown, to switch between them
  * - Export functionality for downloading interview data
+ * - Import of previously exported CSV, XLSX or JSON files
+ * - A link to the order history page
  * 
  * The form integrates with the global app context to manage interview state
  * and provides real-time feedback during the generation process.
@@ -82,16 +144,72 @@ export function InterviewForm({
   ...props
 }: InterviewFormProps) {
   // Get interview state from global context
-  const { interviews, interviewing } = useApp();
+  const {
+    interviews,
+    interviewing,
+    exportColumns,
+    profile,
+    setInterviews,
+    setInterviewing,
+    setJobId,
+    setProfile,
+    generatedAt,
+    setGeneratedAt,
+    trackJob,
+  } = useApp();
+  
+  // Credit balance of the current account
+  const { balance, mutate: mutateCredits } = useCredits();
+  
+  // Toast hook for displaying import results
+  const { toast } = useToast();
   
-  // Form reference for accessing form data during submission
-  const formRef = useRef<HTMLFormElement>(null);
+  // Hidden file input opened by the Import button
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
-  // Local state for the number of interviews slider
-  const [sliderValue, setSliderValue] = useState<number>(DEFAULT_INTERVIEW_COUNT);
+  // Local state for tracking an in-flight import
+  const [importing, setImporting] = useState<boolean>(false);
+  
+  // Form values, restored from the draft saved before leaving for checkout
+  const { values, updateValues } = useFormDraft();
+  const { interviews: sliderValue, tier, promoCode = "" } = values;
+  
+  // Promo code, checked live against the server
+  const promo = usePromoCode(promoCode, sliderValue, tier);
+  
+  // Field-level validation errors, keyed by input name
+  const [fieldErrors, setFieldErrors] = useState<InterviewFormErrors>({});
   
   // Feature flag for showing time estimates
   const timeEstimate = useFeatureFlagEnabled("time-estimate");
+  
+  // Price preview, computed like the checkout line items
+  const price = promo.price ?? quotePrice(sliderValue, tier);
+  
+  // Standard runs covered by the credit balance skip checkout, unless a promo code is entered
+  const payWithCredits =
+    tier === DEFAULT_PRICING_TIER && balance >= sliderValue && !promoCode.trim();
+
+  /**
+   * Tells the buyer they were not charged after returning from a cancelled checkout.
+   * Removes the marker from the URL to prevent re-triggering.
+   */
+  useEffect(() => {
+    const url = new URL(window.location.href);
+
+    if (url.searchParams.get(CHECKOUT_CANCELLED_PARAM) !== CHECKOUT_CANCELLED_VALUE) {
+      return;
+    }
+
+    url.searchParams.delete(CHECKOUT_CANCELLED_PARAM);
+    window.history.replaceState({}, "", url);
+
+    toast({
+      title: TOAST_MESSAGES.CHECKOUT_CANCELLED_TITLE,
+      description: TOAST_MESSAGES.CHECKOUT_CANCELLED_DESCRIPTION,
+      variant: "default",
+    });
+  }, [toast]);
 
   /**
    * Handles changes to the interview count slider.
@@ -99,64 +217,182 @@ export function InterviewForm({
    * @param value - Array containing the new slider value
    */
   const handleSliderChange = (value: number[]): void => {
-    setSliderValue(value[0]);
+    updateValues({ interviews: value[0] });
+    clearFieldError("interviews");
+  };
+
+  /**
+   * Handles selecting a pricing tier.
+   * 
+   * @param value - ID of the selected tier
+   */
+  const handleTierChange = (value: PricingTierId): void => {
+    updateValues({ tier: value });
+    clearFieldError("tier");
+  };
+
+  /**
+   * Handles edits to the promo code input.
+   * 
+   * @param e - Input change event
+   */
+  const handlePromoCodeChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    updateValues({ promoCode: e.target.value });
+    clearFieldError("promoCode");
   };
 
   /**
-   * Handles the Stripe checkout process.
-   * Collects form data, creates a checkout session, and redirects to Stripe.
+   * Removes the validation error for a field once the user edits it.
+   * 
+   * @param field - Name of the edited field
+   */
+  const clearFieldError = (field: keyof InterviewFormValues): void => {
+    setFieldErrors((errors) => {
+      const next = { ...errors };
+      delete next[field];
+      return next;
+    });
+  };
+
+  /**
+   * Returns the props binding a text input to its form value and validation message.
+   * 
+   * @param field - Name of the input
+   * @returns Value and change handler, which also clears the error, plus
+   *   aria-invalid and aria-describedby props
+   */
+  const textFieldProps = (field: TextField) => ({
+    value: values[field],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateValues({ [field]: e.target.value });
+      clearFieldError(field);
+    },
+    "aria-invalid": Boolean(fieldErrors[field]),
+    "aria-describedby": fieldErrors[field] ? `${field}-error` : undefined,
+  });
+
+  /**
+   * Starts generation with prepaid credits and tracks the resulting job.
    * 
-   * @throws Will log errors to console if checkout fails
+   * @param requestData - Validated interview request
    */
-  const handleCheckout = async (): Promise<void> => {
+  const handleSpendCredits = async (requestData: InterviewRequestBody): Promise<void> => {
     try {
-      // Initialize Stripe instance
-      const stripe = await stripePromise;
+      const response = await fetch(API_ENDPOINTS.SPEND_CREDITS, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestData),
+      });
       
-      if (!stripe) {
-        throw new Error('Stripe failed to initialize');
-      }
+      const result = await response.json();
       
-      // Ensure form reference exists
-      if (!formRef.current) {
-        throw new Error('Form reference not available');
+      if (!response.ok) {
+        if (result.errors) {
+          setFieldErrors(result.errors);
+          return;
+        }
+        
+        // The balance may have changed in another tab
+        mutateCredits();
+        throw new Error(result.error || "Failed to spend credits");
       }
       
-      // Extract form data
-      const formData = new FormData(formRef.current);
+      const { orderId, jobId, ...credits }: SpendCreditsResponse = result;
+      mutateCredits(credits, false);
+      const jobProfile = {
+        role: requestData.role,
+        industry: requestData.industry,
+        range: requestData.range,
+        employee_range: requestData.employee_range,
+      };
+      const startedAt = new Date().toISOString();
+      setProfile(jobProfile);
+      setGeneratedAt(startedAt);
+      setInterviewing(true);
+      setJobId(jobId);
+      trackJob({
+        sessionId: orderId,
+        jobId,
+        profile: jobProfile,
+        startedAt,
+      });
+    } catch (error) {
+      console.error("Error spending credits:", error);
+      toast({
+        title: TOAST_MESSAGES.CREDITS_ERROR_TITLE,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Handles starting generation.
+   * Validates form data, then spends credits when the balance covers the run, or
+   * creates a checkout session and redirects to the payment provider's hosted
+   * checkout page. Field errors from the client or the API routes are shown
+   * inline; other failures are shown as a toast.
+   */
+  const handleGenerate = async (): Promise<void> => {
+    try {
+      const request: InterviewFormValues = {
+        ...values,
+        promoCode: promoCode.trim().toUpperCase() || undefined,
+      };
+      
+      // Validate with the same rules as the checkout route
+      const { isValid, errors } = validateInterviewForm(request);
+      setFieldErrors(errors);
+      
+      if (!isValid) {
+        return;
+      }
       
-      // Prepare checkout session data
-      const checkoutData = {
-        role: formData.get("role") as string,
-        industry: formData.get("industry") as string,
-        range: formData.get("experienceRange") as string,
-        employee_range: formData.get("employeeRange") as string,
-        interviews: sliderValue,
-        returnUrl: window.location.origin,
+      // Prepare request data, shared by checkout and credit spending
+      const requestData: InterviewRequestBody = {
+        role: request.role,
+        industry: request.industry,
+        range: request.experienceRange,
+        employee_range: request.employeeRange,
+        interviews: request.interviews,
+        tier: request.tier,
+        promo_code: request.promoCode,
       };
       
+      if (payWithCredits) {
+        await handleSpendCredits(requestData);
+        return;
+      }
+      
       // Create checkout session
       const response = await fetch(API_ENDPOINTS.CHECKOUT, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(checkoutData),
+        body: JSON.stringify({ ...requestData, ...getCheckoutReturnUrls() }),
       });
       
-      if (!response.ok) {
-        throw new Error(`Checkout request failed with status: ${response.status}`);
-      }
-      
       const session = await response.json();
       
-      // Redirect to Stripe checkout
-      const result = await stripe.redirectToCheckout({ sessionId: session.id });
-      
-      if (result.error) {
-        throw new Error(result.error.message);
+      if (!response.ok) {
+        if (session.errors) {
+          setFieldErrors(session.errors);
+          return;
+        }
+        
+        throw new Error(
+          session.error || `Checkout request failed with status: ${response.status}`
+        );
       }
+      
+      // Redirect to the provider's checkout page
+      await redirectToCheckout(session);
     } catch (error) {
       console.error("Error during checkout:", error);
-      // TODO: Show user-friendly error message via toast
+      toast({
+        title: TOAST_MESSAGES.CHECKOUT_ERROR_TITLE,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
     }
   };
 
@@ -172,8 +408,21 @@ export function InterviewForm({
       // Use generated interviews or fall back to default examples
       const interviewData = interviews.length === 0 ? defaultInterviews : interviews;
       
+      // Describe generated interviews by their profile, or examples by the form values
+      const exportProfile = interviews.length > 0 && profile ? profile : {
+        role: values.role || undefined,
+        industry: values.industry || undefined,
+        range: values.experienceRange || undefined,
+        employee_range: values.employeeRange || undefined,
+      };
+      
       // Make the export request
-      const { blob, filename } = await makeExportRequest(path, interviewData);
+      const { blob, filename } = await makeExportRequest(
+        buildExportPath(path, exportColumns),
+        interviewData,
+        exportProfile,
+        interviews.length > 0 ? generatedAt : null
+      );
       
       // Handle the file based on the specified method
       handleFileExport(blob, filename, newTab);
@@ -184,19 +433,63 @@ export function InterviewForm({
   };
 
   /**
-   * Handles form submission by preventing default behavior and initiating checkout.
+   * Handles importing a previously exported interview file.
+   * Replaces the current interviews so the table and exports work on the imported data.
+   * 
+   * @param event - Change event from the hidden file input
+   */
+  const handleImport = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = event.target.files?.[0];
+    
+    // Reset the input so the same file can be imported again
+    event.target.value = "";
+    
+    if (!file) {
+      return;
+    }
+    
+    setImporting(true);
+    
+    try {
+      const imported = await makeImportRequest(API_ENDPOINTS.IMPORT_INTERVIEWS, file);
+      setInterviews(imported);
+      setProfile(null);
+      setGeneratedAt(null);
+      
+      toast({
+        title: TOAST_MESSAGES.IMPORT_SUCCESS_TITLE,
+        description: `Loaded ${imported.length} interview${imported.length === 1 ? "" : "s"} from ${file.name}.`,
+        variant: "default",
+      });
+    } catch (error) {
+      console.error("Error importing file:", error);
+      toast({
+        title: TOAST_MESSAGES.IMPORT_ERROR_TITLE,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Handles form submission by preventing default behavior and starting generation.
    * 
    * @param e - Form submission event
    */
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>): void => {
     e.preventDefault();
-    handleCheckout();
+    handleGenerate();
   };
 
   return (
     <form
-      ref={formRef}
       onSubmit={handleSubmit}
+      // Validation messages are rendered inline from the shared validators
+      noValidate
       className={cn("flex flex-col gap-6", className)}
       {...props}
     >
@@ -205,6 +498,12 @@ export function InterviewForm({
         <p className="text-balance text-sm text-muted-foreground">
           Define your ideal customer profile below
         </p>
+        <Link
+          href={ORDERS_PAGE_PATH}
+          className="text-sm underline-offset-4 hover:underline"
+        >
+          Order history
+        </Link>
       </div>
       <div className="grid gap-6">
         <div className="grid gap-2">
@@ -215,7 +514,9 @@ export function InterviewForm({
             type="text"
             placeholder={DEFAULT_ROLE_PLACEHOLDER}
             required
+            {...textFieldProps("role")}
           />
+          <FieldError id="role-error" message={fieldErrors.role} />
         </div>
         <div className="grid gap-2">
           <div className="flex items-center">
@@ -227,7 +528,9 @@ export function InterviewForm({
             type="text"
             placeholder={DEFAULT_INDUSTRY_PLACEHOLDER}
             required
+            {...textFieldProps("industry")}
           />
+          <FieldError id="industry-error" message={fieldErrors.industry} />
         </div>
         <div className="grid gap-2">
           <Label htmlFor="experienceRange">Experience</Label>
@@ -239,7 +542,9 @@ export function InterviewForm({
             pattern={EXPERIENCE_RANGE_PATTERN}
             title="Enter a valid range (e.g. 2-7)"
             required
+            {...textFieldProps("experienceRange")}
           />
+          <FieldError id="experienceRange-error" message={fieldErrors.experienceRange} />
         </div>
         <div className="grid gap-2">
           <Label htmlFor="employeeRange">Company Size</Label>
@@ -251,7 +556,41 @@ export function InterviewForm({
             pattern={COMPANY_SIZE_PATTERN}
             title="Enter a valid range (e.g. 100-1000)"
             required
+            {...textFieldProps("employeeRange")}
           />
+          <FieldError id="employeeRange-error" message={fieldErrors.employeeRange} />
+        </div>
+        <div className="grid gap-2">
+          <Label id="tier-label">Plan</Label>
+          <div
+            role="radiogroup"
+            aria-labelledby="tier-label"
+            aria-describedby={fieldErrors.tier ? "tier-error" : undefined}
+            className="grid grid-cols-2 gap-2"
+          >
+            {PRICING_TIERS.map(({ id, label, description }) => (
+              <label
+                key={id}
+                className={cn(
+                  "flex cursor-pointer flex-col gap-1 rounded-md border p-3 text-sm has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-ring",
+                  tier === id && "border-primary bg-accent"
+                )}
+              >
+                <input
+                  type="radio"
+                  name="tier"
+                  value={id}
+                  checked={tier === id}
+                  disabled={interviewing}
+                  onChange={() => handleTierChange(id)}
+                  className="sr-only"
+                />
+                <span className="font-medium">{label}</span>
+                <span className="text-muted-foreground">{description}</span>
+              </label>
+            ))}
+          </div>
+          <FieldError id="tier-error" message={fieldErrors.tier} />
         </div>
         <div className="grid gap-2">
           <Label htmlFor="interviews">
@@ -271,7 +610,32 @@ export function InterviewForm({
               min={MIN_INTERVIEW_COUNT}
               max={MAX_INTERVIEW_COUNT}
               step={INTERVIEW_COUNT_STEP}
+              aria-describedby={fieldErrors.interviews ? "interviews-error" : undefined}
             />
+            <FieldError id="interviews-error" message={fieldErrors.interviews} />
+            <div className="flex justify-between text-sm" aria-live="polite">
+              <span className="text-muted-foreground">
+                {price.lines
+                  .map(({ quantity, unitAmount }) =>
+                    `${quantity} × ${formatPrice(unitAmount, price.currency)}`
+                  )
+                  .join(" + ")}
+              </span>
+              <span className="font-medium">
+                {payWithCredits ? (
+                  `${sliderValue} credits`
+                ) : (
+                  <>
+                    {price.discount > 0 && (
+                      <span className="mr-2 text-muted-foreground line-through">
+                        {formatPrice(price.subtotal, price.currency)}
+                      </span>
+                    )}
+                    {formatPrice(price.total, price.currency)}
+                  </>
+                )}
+              </span>
+            </div>
             {timeEstimate && (
               <div className="text-sm text-muted-foreground text-center pt-4">
                 Estimated wait: {sliderValue * MINUTES_PER_INTERVIEW} minutes
@@ -279,40 +643,91 @@ export function InterviewForm({
             )}
           </div>
         </div>
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button disabled={interviewing}>
-                {interviewing && <Loader2 className="animate-spin" />}
-                {interviewing ? BUTTON_TEXT.GENERATING : BUTTON_TEXT.GENERATE}
+        <div className="grid gap-2">
+          <Label htmlFor="promoCode">Promo code (optional)</Label>
+          <Input
+            id="promoCode"
+            name="promoCode"
+            type="text"
+            autoComplete="off"
+            value={promoCode}
+            disabled={interviewing}
+            aria-invalid={Boolean(fieldErrors.promoCode || promo.error)}
+            aria-describedby="promoCode-error"
+            onChange={handlePromoCodeChange}
+          />
+          {fieldErrors.promoCode || promo.error ? (
+            <FieldError id="promoCode-error" message={fieldErrors.promoCode || promo.error} />
+          ) : (
+            <p id="promoCode-error" className="text-sm text-muted-foreground" aria-live="polite">
+              {promo.isChecking
+                ? "Checking code..."
+                : promo.price &&
+                  `Code applied: -${formatPrice(promo.price.discount, promo.price.currency)}`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button className="flex-1" disabled={interviewing}>
+                  {interviewing && <Loader2 className="animate-spin" />}
+                  {interviewing
+                    ? BUTTON_TEXT.GENERATING
+                    : payWithCredits
+                      ? BUTTON_TEXT.GENERATE_WITH_CREDITS
+                      : BUTTON_TEXT.GENERATE}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Estimated wait: {sliderValue * MINUTES_PER_INTERVIEW} minutes</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <CreditsMenu disabled={interviewing} />
+          <ActiveJobsMenu />
+        </div>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex-1" disabled={interviewing}>
+                Download{" "}
+                {!interviewing && interviews.length === 0
+                  ? BUTTON_TEXT.DOWNLOAD_EXAMPLES
+                  : BUTTON_TEXT.DOWNLOAD_INTERVIEWS}
               </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>Estimated wait: {sliderValue * MINUTES_PER_INTERVIEW} minutes</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline" disabled={interviewing}>
-              Download{" "}
-              {!interviewing && interviews.length === 0
-                ? BUTTON_TEXT.DOWNLOAD_EXAMPLES
-                : BUTTON_TEXT.DOWNLOAD_INTERVIEWS}
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent>
-            <DropdownMenuSeparator />
-            {EXPORT_FORMATS.map((format) => (
-              <DropdownMenuItem
-                key={format.label}
-                onClick={() => handleExport(format.path, format.newTab)}
-              >
-                {format.label}
-              </DropdownMenuItem>
-            ))}
-          </DropdownMenuContent>
-        </DropdownMenu>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuSeparator />
+              {EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={format.label}
+                  onClick={() => handleExport(format.path, format.newTab)}
+                >
+                  {format.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <ColumnPicker disabled={interviewing} />
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_ACCEPT}
+          className="hidden"
+          onChange={handleImport}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={interviewing || importing}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {importing ? <Loader2 className="animate-spin" /> : <Upload />}
+          {BUTTON_TEXT.IMPORT_INTERVIEWS}
+        </Button>
       </div>
     </form>
   );
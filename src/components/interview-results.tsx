@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import VideoHero from "@/components/video-hero";
+import { useApp } from "@/context/AppProvider";
+import { InterviewTable } from "@/components/interview-table";
+
+/**
+ * Props interface for the InterviewResults component.
+ */
+interface InterviewResultsProps {
+  /** Stripe session ID from successful payment, if any */
+  sessionId?: string;
+}
+
+/**
+ * InterviewResults component for the right-hand panel of the home page.
+ *
+ * Shows the interview table after a successful payment, while a job paid with
+ * credits runs, or once interviews have been imported, and the video hero otherwise.
+ * On a fresh visit, the most recent job saved before a reload or closing the tab
+ * is resumed, so its progress and then its results are shown.
+ *
+ * @param props - Component props
+ * @param props.sessionId - Stripe session ID from successful payment
+ * @returns JSX element with the interview table or the video hero
+ */
+export function InterviewResults({ sessionId }: InterviewResultsProps) {
+  const { interviews, jobId, activeJobs, resumeJob } = useApp();
+
+  // Resumes at most once, when saved jobs are first restored
+  const resumed = useRef(false);
+
+  useEffect(() => {
+    if (resumed.current || activeJobs.length === 0) {
+      return;
+    }
+    resumed.current = true;
+
+    // A returning checkout or anything already on screen takes precedence
+    if (!sessionId && !jobId && interviews.length === 0) {
+      resumeJob(activeJobs[0]);
+    }
+  }, [activeJobs, sessionId, jobId, interviews.length, resumeJob]);
+
+  if (!sessionId && !jobId && interviews.length === 0) {
+    return <VideoHero />;
+  }
+
+  // Without a session ID the table tracks the current job or displays imported interviews
+  return <InterviewTable sessionId={sessionId ?? ""} />;
+}
@@ -1,7 +1,6 @@
 "use client";
 
 import useSWR from "swr";
-import { useState } from "react";
 import ReactMarkdown from "react-markdown";
 
 import {
@@ -14,20 +13,42 @@ import {
 } from "@/components/ui/table";
 import {
   ContextMenu,
+  ContextMenuCheckboxItem,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useCredits } from "@/hooks/use-credits";
+import { useJobEvents } from "@/hooks/use-job-events";
 import { useApp } from "@/context/AppProvider";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
-import { JobResponse, JobStatus, Interview } from "@/types";
-import { interviews as defaultInterviews } from "@/data/interviews";
-import { handleFileExport, makeExportRequest } from "@/lib/export-utils";
+import { ProfileSummary } from "@/components/profile-summary";
+import {
+  FulfillCheckoutResponse,
+  JobStatus,
+  Interview,
+  OrderRefund,
+  RefundOrderResponse,
+} from "@/types";
+import { formatPrice } from "@/lib/pricing";
+import { toggleExportColumn } from "@/lib/export-columns";
+import {
+  buildExportPath,
+  handleFileExport,
+  makeExportRequest,
+} from "@/lib/export-utils";
 import {
   JOB_STATUS_POLLING_INTERVAL,
+  REFUND_POLLING_ATTEMPTS,
+  REFUND_POLLING_INTERVAL,
   EXPORT_FORMATS,
+  INTERVIEW_COLUMNS,
   QUESTION_LABELS,
   QUESTION_CELL_MAX_HEIGHT,
   SKELETON_ROWS_COUNT,
@@ -37,24 +58,22 @@ import {
 
 /**
  * Initiates the interview generation process with the provided session ID.
+ * Returns the existing job if the session was already fulfilled by the Stripe webhook.
  * 
  * @param sessionId - Stripe session ID from successful payment
- * @returns Promise resolving to job response with job ID
+ * @returns Promise resolving to the job ID and the customer profile paid for
  * @throws Error if the request fails or returns non-ok status
  */
-const startInterviews = async (sessionId: string): Promise<JobResponse> => {
-  const response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_URL}${API_ENDPOINTS.START_INTERVIEWS}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ sessionId }),
-    }
-  );
+const startInterviews = async (sessionId: string): Promise<FulfillCheckoutResponse> => {
+  const response = await fetch(API_ENDPOINTS.FULFILL_CHECKOUT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessionId }),
+  });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || "Failed to start interview generation");
+    throw new Error(error.error || "Failed to start interview generation");
   }
 
   return response.json();
@@ -78,6 +97,75 @@ const fetchStatus = async (url: string): Promise<JobStatus> => {
   return response.json();
 };
 
+/**
+ * Requests the refund of a finished job's order.
+ * 
+ * @param jobId - Finished generation job ID
+ * @param settle - Whether to ask the server to settle the order if it has not yet
+ * @returns Promise resolving to the refund and whether the order is settled
+ * @throws Error if the request fails or returns non-ok status
+ */
+const requestRefund = async (jobId: string, settle: boolean): Promise<RefundOrderResponse> => {
+  const response = settle
+    ? await fetch(API_ENDPOINTS.REFUND_ORDER, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId }),
+      })
+    : await fetch(`${API_ENDPOINTS.REFUND_ORDER}?jobId=${encodeURIComponent(jobId)}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch refund");
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches the refund of a finished job's undelivered interviews.
+ * The server settles the job's order itself once it finishes, so the outcome is
+ * polled for a short while, and only then is the server asked to settle it.
+ * 
+ * @param jobId - Finished generation job ID
+ * @returns Promise resolving to the refund, or null if nothing was owed
+ * @throws Error if a request fails or returns non-ok status
+ */
+const fetchRefund = async (jobId: string): Promise<OrderRefund | null> => {
+  for (let attempt = 0; attempt < REFUND_POLLING_ATTEMPTS; attempt++) {
+    const { refund, settled } = await requestRefund(jobId, false);
+
+    if (settled) {
+      return refund;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REFUND_POLLING_INTERVAL));
+  }
+
+  const { refund } = await requestRefund(jobId, true);
+  return refund;
+};
+
+/**
+ * Describes a refund for display in a toast.
+ * 
+ * @param refund - Issued or pending refund
+ * @returns Sentence stating what was refunded, or is being refunded
+ */
+const describeRefund = ({ status, method, interviews, amount, currency }: OrderRefund): string => {
+  const undelivered = `${interviews} undelivered interview${interviews === 1 ? "" : "s"}`;
+  const isCredits = method === "credits" || !currency;
+  const refunded = isCredits
+    ? `${amount} credit${amount === 1 ? "" : "s"}`
+    : formatPrice(amount, currency);
+
+  if (status === "pending") {
+    return `${refunded} will be ${isCredits ? "returned" : "refunded"} for ${undelivered}.`;
+  }
+
+  return `${refunded} ${isCredits ? "returned" : "refunded"} for ${undelivered}.`;
+};
+
 
 /**
  * Props interface for the InterviewTable component.
@@ -92,13 +180,17 @@ interface InterviewTableProps {
  * 
  * This component handles:
  * - Initiating interview generation based on Stripe session ID
- * - Polling job status and showing progress indicators
- * - Displaying completed interviews in a responsive table
+ * - Showing the customer profile the interviews are generated for
+ * - Following job progress over its event stream, or by polling its status
+ *   when the stream is unavailable, and showing progress indicators
+ * - Showing the refund of undelivered interviews of failed or partially completed jobs
+ * - Displaying interviews in a responsive table as they are generated, with
+ *   skeleton rows for the ones still to come
  * - Context menu for exporting individual interviews
  * - Loading states with skeleton placeholders
  * 
  * The component automatically starts the interview generation process when a
- * session ID is provided and polls for completion status.
+ * session ID is provided and follows the job until it finishes.
  * 
  * @param props - Component props
  * @param props.sessionId - Stripe session ID from successful payment
@@ -108,11 +200,76 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
   // Toast hook for displaying user notifications
   const { toast } = useToast();
   
-  // Local state for tracking the current job ID
-  const [jobId, setJobId] = useState<string | null>(null);
-  
   // Global app state for interviews and generation status
-  const { interviews, setInterviewing, setInterviews } = useApp();
+  const {
+    interviews,
+    setInterviewing,
+    setInterviews,
+    exportColumns,
+    setExportColumns,
+    jobId,
+    setJobId,
+    profile,
+    setProfile,
+    generatedAt,
+    setGeneratedAt,
+    trackJob,
+    untrackJob,
+  } = useApp();
+
+  // Refreshes the credit balance after a credit-back
+  const { mutate: mutateCredits } = useCredits();
+
+  /**
+   * Tells the user the outcome of a finished job, including what the server
+   * refunded for any undelivered interviews.
+   * 
+   * @param finishedJobId - Job that has just finished
+   * @param status - Final job status
+   */
+  const notifyJobFinished = async (
+    finishedJobId: string,
+    status: JobStatus
+  ): Promise<void> => {
+    let refund: OrderRefund | null = null;
+    let refundFailed = false;
+
+    try {
+      refund = await fetchRefund(finishedJobId);
+      if (refund?.method === "credits") {
+        mutateCredits();
+      }
+    } catch (error) {
+      console.error("Error fetching the refund of undelivered interviews:", error);
+      refundFailed = true;
+    }
+
+    if (status.status === "failed") {
+      const refundMessage = refund
+        ? describeRefund(refund)
+        : refundFailed
+          ? TOAST_MESSAGES.REFUND_ERROR_DESCRIPTION
+          : "";
+
+      toast({
+        title: TOAST_MESSAGES.ERROR_TITLE,
+        description: [status.error, refundMessage].filter(Boolean).join(" "),
+        variant: "destructive",
+      });
+    } else if (refund) {
+      toast({
+        title: TOAST_MESSAGES.PARTIAL_TITLE,
+        description: describeRefund(refund),
+        variant: "default",
+      });
+    } else {
+      toast({
+        title: TOAST_MESSAGES.SUCCESS_TITLE,
+        description: TOAST_MESSAGES.SUCCESS_DESCRIPTION,
+        variant: "default",
+      });
+    }
+  };
 
   /**
    * SWR hook to handle interview generation initiation.
@@ -126,16 +283,14 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
       url.searchParams.delete("session_id");
       window.history.replaceState({}, "", url);
 
-      // In development, use default interviews for testing
-      if (process.env.NODE_ENV === "development") {
-        setInterviews(defaultInterviews);
-        return;
-      }
-
       // Start the interview generation process
       setInterviewing(true);
-      const { jobId } = await startInterviews(sessionId);
+      const { jobId, profile } = await startInterviews(sessionId);
+      const startedAt = new Date().toISOString();
+      setProfile(profile);
+      setGeneratedAt(startedAt);
       setJobId(jobId);
+      trackJob({ sessionId, jobId, profile, startedAt });
       return jobId;
     },
     {
@@ -154,44 +309,56 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
   );
 
   /**
-   * SWR hook to poll job status when a job is active.
+   * Shows the interviews of a completed job and ends the run.
+   * Finished jobs are checked for undelivered interviews to refund, and are no
+   * longer resumed on the next visit.
+   *
+   * @param status - Final job status
+   */
+  const handleJobFinished = (status: JobStatus): void => {
+    if (status.status === "completed") {
+      setInterviews(status.data || []);
+    }
+    setInterviewing(false);
+    setJobId(null);
+    if (jobId) {
+      untrackJob(jobId);
+      notifyJobFinished(jobId, status);
+    }
+  };
+
+  // Follows the active job over its event stream
+  const { status: streamStatus, fallback: pollStatus } = useJobEvents(
+    jobId,
+    handleJobFinished
+  );
+
+  /**
+   * SWR hook to poll job status when the event stream of the active job is unavailable.
    * Handles completion, failure, and progress updates.
    */
   const { data: statusData, error: statusError } = useSWR(
-    jobId
-      ? `${process.env.NEXT_PUBLIC_API_URL}${API_ENDPOINTS.INTERVIEW_STATUS}/${jobId}`
+    jobId && pollStatus
+      ? `${process.env.NEXT_PUBLIC_API_URL ?? ""}${API_ENDPOINTS.INTERVIEW_STATUS}/${jobId}`
       : null,
     fetchStatus,
     {
       // Poll every 15 seconds for status updates
       refreshInterval: JOB_STATUS_POLLING_INTERVAL,
       onSuccess: (data) => {
-        if (data.status === "completed") {
-          // Job completed successfully
-          setInterviews(data.data || []);
-          setInterviewing(false);
-          setJobId(null);
-          toast({
-            title: TOAST_MESSAGES.SUCCESS_TITLE,
-            description: TOAST_MESSAGES.SUCCESS_DESCRIPTION,
-            variant: "default",
-          });
-        } else if (data.status === "failed") {
-          // Job failed with error
-          setInterviewing(false);
-          setJobId(null);
-          toast({
-            title: TOAST_MESSAGES.ERROR_TITLE,
-            description: data.error,
-            variant: "destructive",
-          });
+        if (data.status !== "pending") {
+          handleJobFinished(data);
         }
         // For "pending" status, continue polling (no action needed)
       },
       onError: (error) => {
-        // Handle polling errors
+        // Handle polling errors. The job is no longer resumed, but its order
+        // stays in the order history.
         setInterviewing(false);
         setJobId(null);
+        if (jobId) {
+          untrackJob(jobId);
+        }
         toast({
           title: TOAST_MESSAGES.ERROR_TITLE,
           description: error.message,
@@ -215,7 +382,12 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
   ): Promise<void> => {
     try {
       // Make export request for single interview
-      const { blob, filename } = await makeExportRequest(path, [interview]);
+      const { blob, filename } = await makeExportRequest(
+        buildExportPath(path, exportColumns),
+        [interview],
+        profile ?? undefined,
+        generatedAt
+      );
       
       // Handle the file export
       handleFileExport(blob, filename, newTab);
@@ -230,48 +402,171 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
     }
   };
 
-  if (statusData?.status === "pending") {
+  /**
+   * Header of the interview table, with a column per answer.
+   */
+  const tableHeader = (
+    <TableHeader className="bg-gray-100 sticky top-0 z-10">
+      <TableRow>
+        <TableHead className="w-32 px-4 py-2">Role</TableHead>
+        <TableHead className="w-32 px-4 py-2">Industry</TableHead>
+        <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_ONE}</TableHead>
+        <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_TWO}</TableHead>
+        <TableHead className="px-4 py-2">
+          {QUESTION_LABELS.QUESTION_THREE}
+        </TableHead>
+        <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_FOUR}</TableHead>
+        <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_FIVE}</TableHead>
+      </TableRow>
+    </TableHeader>
+  );
+
+  /**
+   * Renders one interview as a table row, with a context menu for exporting it.
+   *
+   * @param interview - Interview to render
+   * @param index - Position of the interview in the table
+   * @returns Table row element
+   */
+  const renderInterviewRow = (interview: Interview, index: number) => (
+    <ContextMenu key={index}>
+      <ContextMenuTrigger asChild>
+        <TableRow className="odd:bg-white even:bg-gray-50 hover:bg-gray-100 transition-colors">
+          <TableCell className="capitalize px-4 py-2 w-32">
+            {interview.role}
+          </TableCell>
+          <TableCell className="capitalize px-4 py-2 w-32">
+            {interview.industry}
+          </TableCell>
+          <TableCell className="px-4 py-2">
+            <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
+              <ReactMarkdown>
+                {interview.question_one}
+              </ReactMarkdown>
+            </div>
+          </TableCell>
+          <TableCell className="px-4 py-2">
+            <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
+              <ReactMarkdown>
+                {interview.question_two}
+              </ReactMarkdown>
+            </div>
+          </TableCell>
+          <TableCell className="px-4 py-2">
+            <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
+              <ReactMarkdown>
+                {interview.question_three}
+              </ReactMarkdown>
+            </div>
+          </TableCell>
+          <TableCell className="px-4 py-2">
+            <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
+              <ReactMarkdown>
+                {interview.question_four}
+              </ReactMarkdown>
+            </div>
+          </TableCell>
+          <TableCell className="px-4 py-2">
+            <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
+              <ReactMarkdown>
+                {interview.question_five}
+              </ReactMarkdown>
+            </div>
+          </TableCell>
+        </TableRow>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        {EXPORT_FORMATS.map((format) => (
+          <ContextMenuItem
+            key={format.label}
+            onClick={() =>
+              handleExport(format.path, format.newTab, interview)
+            }
+          >
+            {format.label}
+          </ContextMenuItem>
+        ))}
+        <ContextMenuSeparator />
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>Columns</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            {INTERVIEW_COLUMNS.map(({ field, label }) => (
+              <ContextMenuCheckboxItem
+                key={field}
+                checked={exportColumns.includes(field)}
+                onSelect={(event) => event.preventDefault()}
+                onCheckedChange={() =>
+                  setExportColumns((columns) =>
+                    toggleExportColumn(columns, field)
+                  )
+                }
+              >
+                {label}
+              </ContextMenuCheckboxItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+
+  // Pending status of the active job, from whichever source is following it
+  const pendingStatus = pollStatus
+    ? statusData?.status === "pending" ? statusData : null
+    : streamStatus;
+
+  if (jobId && pendingStatus) {
+    const progress = pendingStatus.progress || 0;
+    // Interviews generated so far are shown right away, with skeletons for the rest
+    const finished = pendingStatus.data ?? [];
+    const skeletonRows =
+      pendingStatus.remaining ?? Math.max(SKELETON_ROWS_COUNT - finished.length, 0);
+
     return (
       <div className="h-screen flex flex-col p-4">
+        <ProfileSummary />
         <div className="mb-4">
-          <Progress value={statusData.progress || 0} className="w-full" />
+          <Progress value={progress} className="w-full" />
           <p className="text-sm text-gray-500 mt-2 text-center">
             {TOAST_MESSAGES.PROGRESS_MESSAGE}{" "}
-            {statusData.progress || 0}% complete.
+            {progress}% complete.
           </p>
         </div>
         <div className="flex-grow overflow-auto">
           <div className="bg-white shadow-md rounded-lg overflow-hidden">
             <Table className="w-full table-fixed h-full">
-              <TableHeader className="bg-gray-100 sticky top-0 z-10">
-                <TableRow>
-                  <th className="w-32 px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="w-32 px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                  <th className="px-4 py-2">
-                    <Skeleton className="w-full h-8" />
-                  </th>
-                </TableRow>
-              </TableHeader>
+              {finished.length > 0 ? tableHeader : (
+                <TableHeader className="bg-gray-100 sticky top-0 z-10">
+                  <TableRow>
+                    <th className="w-32 px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="w-32 px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                    <th className="px-4 py-2">
+                      <Skeleton className="w-full h-8" />
+                    </th>
+                  </TableRow>
+                </TableHeader>
+              )}
               <TableBody className="h-full">
-                {Array.from({ length: SKELETON_ROWS_COUNT }).map((_, index) => (
+                {finished.map(renderInterviewRow)}
+                {Array.from({ length: skeletonRows }).map((_, index) => (
                   <TableRow
-                    key={index}
+                    key={`skeleton-${index}`}
                     className="odd:bg-white even:bg-gray-50"
                   >
                     <td className="w-32 px-4 py-2">
@@ -311,84 +606,13 @@ export function InterviewTable({ sessionId }: InterviewTableProps) {
 
   return (
     <div className="h-screen flex flex-col bg-gray-50 p-4">
+      <ProfileSummary />
       <div className="flex-1 overflow-auto">
         <div className="bg-white shadow-md rounded-lg overflow-hidden">
           <Table className="w-full table-fixed">
-            <TableHeader className="bg-gray-100 sticky top-0 z-10">
-              <TableRow>
-                <TableHead className="w-32 px-4 py-2">Role</TableHead>
-                <TableHead className="w-32 px-4 py-2">Industry</TableHead>
-                <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_ONE}</TableHead>
-                <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_TWO}</TableHead>
-                <TableHead className="px-4 py-2">
-                  {QUESTION_LABELS.QUESTION_THREE}
-                </TableHead>
-                <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_FOUR}</TableHead>
-                <TableHead className="px-4 py-2">{QUESTION_LABELS.QUESTION_FIVE}</TableHead>
-              </TableRow>
-            </TableHeader>
+            {tableHeader}
             <TableBody>
-              {interviews.map((interview, index) => (
-                <ContextMenu key={index}>
-                  <ContextMenuTrigger asChild>
-                    <TableRow className="odd:bg-white even:bg-gray-50 hover:bg-gray-100 transition-colors">
-                      <TableCell className="capitalize px-4 py-2 w-32">
-                        {interview.role}
-                      </TableCell>
-                      <TableCell className="capitalize px-4 py-2 w-32">
-                        {interview.industry}
-                      </TableCell>
-                      <TableCell className="px-4 py-2">
-                        <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
-                          <ReactMarkdown>
-                            {interview.question_one}
-                          </ReactMarkdown>
-                        </div>
-                      </TableCell>
-                      <TableCell className="px-4 py-2">
-                        <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
-                          <ReactMarkdown>
-                            {interview.question_two}
-                          </ReactMarkdown>
-                        </div>
-                      </TableCell>
-                      <TableCell className="px-4 py-2">
-                        <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
-                          <ReactMarkdown>
-                            {interview.question_three}
-                          </ReactMarkdown>
-                        </div>
-                      </TableCell>
-                      <TableCell className="px-4 py-2">
-                        <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
-                          <ReactMarkdown>
-                            {interview.question_four}
-                          </ReactMarkdown>
-                        </div>
-                      </TableCell>
-                      <TableCell className="px-4 py-2">
-                        <div className={`${QUESTION_CELL_MAX_HEIGHT} overflow-y-auto`}>
-                          <ReactMarkdown>
-                            {interview.question_five}
-                          </ReactMarkdown>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  </ContextMenuTrigger>
-                  <ContextMenuContent>
-                    {EXPORT_FORMATS.map((format) => (
-                      <ContextMenuItem
-                        key={format.label}
-                        onClick={() =>
-                          handleExport(format.path, format.newTab, interview)
-                        }
-                      >
-                        {format.label}
-                      </ContextMenuItem>
-                    ))}
-                  </ContextMenuContent>
-                </ContextMenu>
-              ))}
+              {interviews.map(renderInterviewRow)}
             </TableBody>
           </Table>
         </div>
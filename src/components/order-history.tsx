@@ -0,0 +1,301 @@
+"use client";
+
+import useSWR from "swr";
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useApp } from "@/context/AppProvider";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice, getPricingTier } from "@/lib/pricing";
+import { Order, OrderDetailsResponse, OrdersResponse } from "@/types";
+import {
+  buildExportPath,
+  handleFileExport,
+  makeExportRequest,
+} from "@/lib/export-utils";
+import {
+  API_ENDPOINTS,
+  BUTTON_TEXT,
+  EXPORT_FORMATS,
+  JOB_STATUS_POLLING_INTERVAL,
+  ORDER_STATUS_LABELS,
+  SKELETON_ROWS_COUNT,
+  TOAST_MESSAGES,
+} from "@/constants/app";
+
+/**
+ * Fetches the order history of the current account.
+ *
+ * @param url - Orders API endpoint
+ * @returns Promise resolving to the orders, most recent first
+ * @throws Error if the request fails
+ */
+const fetchOrders = async (url: string): Promise<OrdersResponse> => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load orders");
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches an order with its generated interviews.
+ *
+ * @param orderId - Order ID
+ * @returns Promise resolving to the order and its interviews
+ * @throws Error if the request fails
+ */
+const fetchOrderDetails = async (orderId: string): Promise<OrderDetailsResponse> => {
+  const response = await fetch(`${API_ENDPOINTS.ORDERS}/${encodeURIComponent(orderId)}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load order");
+  }
+
+  return response.json();
+};
+
+/**
+ * Describes what was paid for an order, and anything refunded.
+ *
+ * @param order - Order to describe
+ * @returns Amount paid, or credits spent, with the refund if any
+ */
+const describePayment = ({ amount, currency, interviews, refund }: Order): string => {
+  const paid = amount !== null && currency
+    ? formatPrice(amount, currency)
+    : `${interviews} credits`;
+
+  if (!refund) {
+    return paid;
+  }
+
+  const refunded = refund.currency
+    ? formatPrice(refund.amount, refund.currency)
+    : `${refund.amount} credits`;
+
+  return `${paid} (${refunded} ${refund.status === "pending" ? "refund pending" : "refunded"})`;
+};
+
+/**
+ * OrderHistory component listing the current account's past purchases.
+ *
+ * This component provides:
+ * - One row per order with its date, customer profile, plan, interview count,
+ *   amount paid and job status
+ * - Reopening a completed order's interviews in the interview table
+ * - Downloading a completed order's interviews in any export format
+ *
+ * Interviews are loaded from persisted job results, so orders stay available after
+ * the page that generated them is closed. The list is refreshed while any of its
+ * jobs are still running.
+ *
+ * @returns JSX element with the order table, or loading and empty states
+ */
+export function OrderHistory() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { exportColumns, setInterviews, setProfile, setGeneratedAt } = useApp();
+
+  // Order currently being opened or exported
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+
+  const { data, error, isLoading } = useSWR(API_ENDPOINTS.ORDERS, fetchOrders, {
+    revalidateOnFocus: false,
+    // Keep polling while any job is running
+    refreshInterval: (latest) =>
+      latest?.orders.some((order) => order.status === "pending")
+        ? JOB_STATUS_POLLING_INTERVAL
+        : 0,
+  });
+
+  /**
+   * Runs an action with an order's interviews, reporting failures as a toast.
+   *
+   * @param order - Order to load
+   * @param action - Action to run with the loaded order
+   */
+  const withOrderDetails = async (
+    order: Order,
+    action: (details: OrderDetailsResponse) => Promise<void> | void
+  ): Promise<void> => {
+    setBusyOrderId(order.id);
+
+    try {
+      await action(await fetchOrderDetails(order.id));
+    } catch (error) {
+      toast({
+        title: TOAST_MESSAGES.ORDER_ERROR_TITLE,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  /**
+   * Opens an order's interviews in the interview table on the home page,
+   * labelled with the order's customer profile.
+   *
+   * @param order - Completed order
+   */
+  const handleOpen = (order: Order): Promise<void> =>
+    withOrderDetails(order, ({ interviews }) => {
+      setInterviews(interviews);
+      setProfile(order.profile);
+      setGeneratedAt(order.createdAt);
+      router.push("/");
+    });
+
+  /**
+   * Downloads an order's interviews in the specified format.
+   *
+   * @param order - Completed order
+   * @param path - API endpoint path for the export
+   * @param newTab - Whether to open in new tab or download
+   */
+  const handleExport = (order: Order, path: string, newTab: boolean): Promise<void> =>
+    withOrderDetails(order, async ({ interviews }) => {
+      const { blob, filename } = await makeExportRequest(
+        buildExportPath(path, exportColumns),
+        interviews,
+        order.profile ?? undefined,
+        order.createdAt
+      );
+      handleFileExport(blob, filename, newTab);
+    });
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error.message}</p>;
+  }
+
+  if (!isLoading && data?.orders.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No orders yet. Orders appear here once generation starts.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-auto rounded-lg bg-white shadow-md">
+      <Table>
+        <TableHeader className="bg-gray-100">
+          <TableRow>
+            <TableHead className="px-4 py-2">Date</TableHead>
+            <TableHead className="px-4 py-2">Profile</TableHead>
+            <TableHead className="px-4 py-2">Plan</TableHead>
+            <TableHead className="px-4 py-2">Interviews</TableHead>
+            <TableHead className="px-4 py-2">Amount</TableHead>
+            <TableHead className="px-4 py-2">Status</TableHead>
+            <TableHead className="px-4 py-2">
+              <span className="sr-only">Actions</span>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading || !data
+            ? Array.from({ length: SKELETON_ROWS_COUNT }).map((_, index) => (
+                <TableRow key={index}>
+                  <TableCell colSpan={7} className="px-4 py-2">
+                    <Skeleton className="h-8 w-full" />
+                  </TableCell>
+                </TableRow>
+              ))
+            : data.orders.map((order) => {
+                const available = order.status === "completed" && Boolean(order.delivered);
+                const busy = busyOrderId === order.id;
+
+                return (
+                  <TableRow key={order.id} className="odd:bg-white even:bg-gray-50">
+                    <TableCell className="whitespace-nowrap px-4 py-2">
+                      {new Date(order.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="px-4 py-2">
+                      {order.profile ? (
+                        <>
+                          <div className="font-medium capitalize">{order.profile.role}</div>
+                          <div className="text-muted-foreground">
+                            {order.profile.industry} · {order.profile.range} years ·{" "}
+                            {order.profile.employee_range} employees
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Unknown profile</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="px-4 py-2">
+                      {order.tier ? getPricingTier(order.tier).label : "-"}
+                    </TableCell>
+                    <TableCell className="px-4 py-2">
+                      {order.delivered !== undefined
+                        ? `${order.delivered} of ${order.interviews}`
+                        : order.interviews}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap px-4 py-2">
+                      {describePayment(order)}
+                    </TableCell>
+                    <TableCell className="px-4 py-2">
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </TableCell>
+                    <TableCell className="px-4 py-2">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          disabled={!available || busy}
+                          onClick={() => handleOpen(order)}
+                        >
+                          {busy && <Loader2 className="animate-spin" />}
+                          {BUTTON_TEXT.OPEN_ORDER}
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button size="sm" variant="outline" disabled={!available || busy}>
+                              {BUTTON_TEXT.DOWNLOAD}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {EXPORT_FORMATS.map((format) => (
+                              <DropdownMenuItem
+                                key={format.label}
+                                onClick={() =>
+                                  handleExport(order, format.path, format.newTab)
+                                }
+                              >
+                                {format.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useApp } from "@/context/AppProvider";
+
+/**
+ * ProfileSummary component showing the customer profile the displayed interviews
+ * were generated for, above the interview table.
+ *
+ * The profile comes from the form when paying with credits, from the checkout
+ * session metadata after a paid checkout, or from the order when reopening one.
+ * Nothing is shown when it is unknown, e.g. for imported interviews.
+ *
+ * @returns JSX element describing the profile, or null without a profile
+ */
+export function ProfileSummary() {
+  const { profile } = useApp();
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 rounded-lg bg-white px-4 py-3 shadow-md">
+      <p className="text-xs uppercase tracking-wide text-muted-foreground">
+        Generated for
+      </p>
+      <p className="font-medium capitalize">{profile.role}</p>
+      <p className="text-sm text-muted-foreground">
+        {profile.industry} · {profile.range} years · {profile.employee_range} employees
+        {profile.country && ` · ${profile.country}`}
+      </p>
+    </div>
+  );
+}
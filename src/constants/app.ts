@@ -1,3 +1,5 @@
+import type { Interview, PricingTier, PromotionCode } from '@/types';
+
 /**
  * Application-wide constants for the AI Interview Generator.
  * Centralizes magic numbers, strings, and configuration values.
@@ -15,12 +17,89 @@ export const MAX_INTERVIEW_COUNT = 20;
 /** Step size for the interview count slider */
 export const INTERVIEW_COUNT_STEP = 1;
 
+/** Currency all prices are charged in */
+export const PRICING_CURRENCY = 'usd';
+
+/** Pricing tier selected by default, and used to price credit packs */
+export const DEFAULT_PRICING_TIER = 'standard';
+
+/**
+ * Pricing tiers with graduated volume discounts, in cents per interview.
+ * Both the form's price preview and checkout line items are built from this table.
+ */
+export const PRICING_TIERS = [
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Five answers per interview',
+    bands: [
+      { upTo: 10, unitAmount: 500 },
+      { upTo: null, unitAmount: 400 },
+    ],
+  },
+  {
+    id: 'premium',
+    label: 'Premium',
+    description: 'Longer answers with follow-up questions',
+    bands: [
+      { upTo: 10, unitAmount: 900 },
+      { upTo: null, unitAmount: 750 },
+    ],
+  },
+] as const satisfies ReadonlyArray<PricingTier>;
+
+/** Promotion code format: letters, digits, dashes and underscores */
+export const PROMO_CODE_PATTERN = '^[A-Z0-9_-]{3,40}$';
+
+/** Delay after typing stops before a promotion code is checked, in milliseconds */
+export const PROMO_CODE_CHECK_DELAY = 400;
+
+/**
+ * Local discount table, used instead of Stripe promotion codes by other payment
+ * providers (e.g. the mock provider). Codes are matched case-insensitively.
+ */
+export const LOCAL_PROMO_CODES = [
+  { code: 'WORKSHOP20', id: null, percentOff: 20, amountOff: null },
+  { code: 'TEAM10', id: null, percentOff: null, amountOff: 1000 },
+] as const satisfies ReadonlyArray<PromotionCode>;
+
 /** Estimated time per interview in minutes (used for time calculations) */
 export const MINUTES_PER_INTERVIEW = 2;
 
+/** Available LLM providers, selected with LLM_PROVIDER */
+export const LLM_PROVIDERS = {
+  STUB: 'stub',
+  OPENAI: 'openai',
+  ANTHROPIC: 'anthropic',
+} as const;
+
+/** Models used when LLM_MODEL is not set */
+export const DEFAULT_LLM_MODELS = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+} as const;
+
+/** Time allowed for one LLM request, in milliseconds */
+export const LLM_REQUEST_TIMEOUT = 120000;
+
+/** Simulated generation time per interview of the offline stub, in milliseconds */
+export const LLM_STUB_DEFAULT_DELAY = 1000;
+
+/** Attempts at generating each interview before the generation service skips it */
+export const GENERATION_MAX_ATTEMPTS = 2;
+
 /** Polling interval for job status checks in milliseconds */
 export const JOB_STATUS_POLLING_INTERVAL = 15000;
 
+/** Polls for a finished job's refund before asking the server to settle the order */
+export const REFUND_POLLING_ATTEMPTS = 5;
+
+/** Polling interval for a finished job's refund in milliseconds */
+export const REFUND_POLLING_INTERVAL = 1000;
+
+/** Interval of keep-alive comments on job event streams in milliseconds */
+export const JOB_EVENTS_HEARTBEAT_INTERVAL = 15000;
+
 /** Maximum height for question cells in the table */
 export const QUESTION_CELL_MAX_HEIGHT = 'max-h-48';
 
@@ -45,6 +124,12 @@ export const DEFAULT_EXPERIENCE_PLACEHOLDER = '2-7 years';
 /** Default company size placeholder text */
 export const DEFAULT_COMPANY_SIZE_PLACEHOLDER = '100-1000 Employees';
 
+/** Session storage key of the interview form draft, kept across checkout redirects */
+export const FORM_DRAFT_STORAGE_KEY = 'interview-form-draft';
+
+/** Local storage key of the jobs started in this browser, kept until their results are shown */
+export const ACTIVE_JOBS_STORAGE_KEY = 'active-jobs';
+
 /** Supported export formats configuration */
 export const EXPORT_FORMATS = [
   { label: 'TXT', path: '/api/tables/interviews?format=txt', newTab: false },
@@ -52,6 +137,10 @@ export const EXPORT_FORMATS = [
   { label: 'XLSX', path: '/api/tables/interviews?format=xlsx', newTab: false },
   { label: 'JSON', path: '/api/tables/interviews?format=json', newTab: true },
   { label: 'HTML', path: '/api/tables/interviews?format=html', newTab: true },
+  { label: 'Markdown', path: '/api/tables/interviews?format=md', newTab: false },
+  { label: 'PDF', path: '/api/tables/interviews?format=pdf', newTab: false },
+  { label: 'DOCX', path: '/api/tables/interviews?format=docx', newTab: false },
+  { label: 'ZIP', path: '/api/tables/interviews?format=zip', newTab: false },
 ] as const;
 
 /** Interview question labels for table headers */
@@ -63,27 +152,129 @@ export const QUESTION_LABELS = {
   QUESTION_FIVE: 'Q5: Ideal solution',
 } as const;
 
+/** Interview answer fields paired with their question labels, in table order */
+export const QUESTION_FIELDS = [
+  { field: 'question_one', label: QUESTION_LABELS.QUESTION_ONE },
+  { field: 'question_two', label: QUESTION_LABELS.QUESTION_TWO },
+  { field: 'question_three', label: QUESTION_LABELS.QUESTION_THREE },
+  { field: 'question_four', label: QUESTION_LABELS.QUESTION_FOUR },
+  { field: 'question_five', label: QUESTION_LABELS.QUESTION_FIVE },
+] as const satisfies ReadonlyArray<{ field: keyof Interview; label: string }>;
+
+/** All exportable interview fields with their display labels, in default export order */
+export const INTERVIEW_COLUMNS = [
+  { field: 'role', label: 'Role' },
+  { field: 'industry', label: 'Industry' },
+  ...QUESTION_FIELDS,
+] as const satisfies ReadonlyArray<{ field: keyof Interview; label: string }>;
+
+/** Maximum size of an imported interview file, in bytes */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+/** Maximum number of interviews accepted in a single import */
+export const MAX_IMPORT_ROWS = 500;
+
+/** File types accepted by the interview import file picker */
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx,.json';
+
 /** Toast messages */
 export const TOAST_MESSAGES = {
   SUCCESS_TITLE: 'Success!',
   SUCCESS_DESCRIPTION: 'Your interviews have been generated.',
   ERROR_TITLE: 'Error',
+  PARTIAL_TITLE: 'Some interviews could not be generated',
+  REFUND_ERROR_DESCRIPTION: 'We could not issue a refund automatically. Please contact support.',
   EXPORT_ERROR_TITLE: 'Export Error',
-  PROGRESS_MESSAGE: 'Please do not close this tab. Generating interviews...',
+  CHECKOUT_ERROR_TITLE: 'Checkout Error',
+  CHECKOUT_CANCELLED_TITLE: 'Checkout cancelled',
+  CHECKOUT_CANCELLED_DESCRIPTION: 'You have not been charged, and your details are still filled in.',
+  CREDITS_ADDED_TITLE: 'Credits added',
+  CREDITS_ERROR_TITLE: 'Credits Error',
+  IMPORT_SUCCESS_TITLE: 'Interviews imported',
+  IMPORT_ERROR_TITLE: 'Import Error',
+  ORDER_ERROR_TITLE: 'Order Error',
+  PROGRESS_MESSAGE: 'Generating interviews... You can close this tab and come back for the results.',
 } as const;
 
 /** Button text constants */
 export const BUTTON_TEXT = {
   GENERATING: 'Generating',
   GENERATE: 'Generate',
+  GENERATE_WITH_CREDITS: 'Generate with credits',
+  BUY_CREDITS: 'Buy credits',
   DOWNLOAD_EXAMPLES: 'Download Examples',
   DOWNLOAD_INTERVIEWS: 'Download Interviews',
+  IMPORT_INTERVIEWS: 'Import Interviews',
+  OPEN_ORDER: 'Open',
+  ACTIVE_JOBS: 'Active jobs',
+  DOWNLOAD: 'Download',
+} as const;
+
+/** Available payment providers, selected with NEXT_PUBLIC_PAYMENT_PROVIDER */
+export const PAYMENT_PROVIDERS = {
+  STRIPE: 'stripe',
+  MOCK: 'mock',
+} as const;
+
+/** Order history page */
+export const ORDERS_PAGE_PATH = '/orders';
+
+/** Display labels for order job statuses */
+export const ORDER_STATUS_LABELS = {
+  pending: 'Generating',
+  completed: 'Completed',
+  failed: 'Failed',
+} as const;
+
+/**
+ * Pages checkout may redirect back to; return URLs with any other path are rejected.
+ * Paid sessions are fulfilled on the home page, so only cancellations may return elsewhere.
+ */
+export const CHECKOUT_RETURN_PATHS = {
+  SUCCESS: ['/'],
+  CANCEL: ['/', ORDERS_PAGE_PATH],
 } as const;
 
+/** Query parameter and value marking a return from a cancelled checkout */
+export const CHECKOUT_CANCELLED_PARAM = 'checkout';
+export const CHECKOUT_CANCELLED_VALUE = 'cancelled';
+
+/** Hosted checkout page served by the mock payment provider */
+export const MOCK_CHECKOUT_PAGE_PATH = '/mock-checkout';
+
+/** Kinds of purchase recorded in checkout session metadata as `type` */
+export const CHECKOUT_TYPES = {
+  INTERVIEWS: 'interviews',
+  CREDITS: 'credits',
+} as const;
+
+/** Credit packs available for purchase; one credit pays for one interview */
+export const CREDIT_PACKS = [
+  { id: 'credits-20', credits: 20 },
+  { id: 'credits-50', credits: 50 },
+  { id: 'credits-100', credits: 100 },
+] as const;
+
+/** Query parameter carrying the checkout session ID after buying credits */
+export const CREDIT_SESSION_PARAM = 'credit_session_id';
+
+/** Placeholder in success URLs that providers replace with the checkout session ID */
+export const CHECKOUT_SESSION_ID_PLACEHOLDER = '{CHECKOUT_SESSION_ID}';
+
 /** API endpoints */
 export const API_ENDPOINTS = {
   CHECKOUT: '/api/checkout',
+  FULFILL_CHECKOUT: '/api/checkout/fulfill',
+  MOCK_CHECKOUT: '/api/mock-checkout',
+  CREDITS: '/api/credits',
+  FULFILL_CREDITS: '/api/credits/fulfill',
+  SPEND_CREDITS: '/api/credits/spend',
+  PROMO_CODE: '/api/checkout/promo',
+  ORDERS: '/api/orders',
+  REFUND_ORDER: '/api/orders/refund',
   TABLES_INTERVIEWS: '/api/tables/interviews',
+  IMPORT_INTERVIEWS: '/api/tables/interviews/import',
   START_INTERVIEWS: '/api/v1/ideation/start-interviews',
   INTERVIEW_STATUS: '/api/v1/ideation/interview-status',
+  INTERVIEW_EVENTS: '/api/v1/ideation/interview-events',
 } as const;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
 
-import { AppContextType, Interview } from "@/types";
+import { ActiveJob, AppContextType, ExportColumn, Interview, InterviewProfile } from "@/types";
+import { DEFAULT_EXPORT_COLUMNS } from "@/lib/export-columns";
+import { useActiveJobs } from "@/hooks/use-active-jobs";
 
 /**
  * Application context for managing global interview state.
@@ -22,6 +24,11 @@ interface AppProviderProps {
  * This provider manages:
  * - Interview generation status (interviewing boolean)
  * - Generated interview data (interviews array)
+ * - Columns selected for exports (exportColumns array)
+ * - Generation job being tracked (jobId)
+ * - Customer profile of the displayed interviews (profile)
+ * - Generation time of the displayed interviews (generatedAt)
+ * - Jobs saved to be resumed after a reload or closing the tab (activeJobs)
  * - State setters for updating the above values
  * 
  * @param props - The component props
@@ -34,6 +41,33 @@ export function AppProvider({ children }: AppProviderProps) {
   
   // State for storing generated interview data
   const [interviews, setInterviews] = useState<Interview[]>([]);
+  
+  // State for the interview fields included in exports
+  const [exportColumns, setExportColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  
+  // State for the generation job being tracked, started by checkout or credits
+  const [jobId, setJobId] = useState<string | null>(null);
+  
+  // State for the customer profile the displayed interviews were generated for
+  const [profile, setProfile] = useState<InterviewProfile | null>(null);
+
+  // State for when the displayed interviews' job was started
+  const [generatedAt, setGeneratedAt] = useState<string | null>(null);
+
+  // Jobs started in this browser, saved until their results are shown
+  const { activeJobs, trackJob, untrackJob } = useActiveJobs();
+
+  /**
+   * Tracks a saved job, showing its progress and then its results.
+   *
+   * @param job - Saved job to resume
+   */
+  const resumeJob = (job: ActiveJob): void => {
+    setProfile(job.profile);
+    setGeneratedAt(job.startedAt);
+    setInterviewing(true);
+    setJobId(job.jobId);
+  };
 
   // Context value object containing state and setters
   const value: AppContextType = {
@@ -41,6 +75,18 @@ export function AppProvider({ children }: AppProviderProps) {
     interviewing,
     setInterviews,
     setInterviewing,
+    exportColumns,
+    setExportColumns,
+    jobId,
+    setJobId,
+    profile,
+    setProfile,
+    generatedAt,
+    setGeneratedAt,
+    activeJobs,
+    trackJob,
+    untrackJob,
+    resumeJob,
   };
 
   return (
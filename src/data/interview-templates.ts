@@ -0,0 +1,151 @@
+/**
+ * Answer templates of the offline LLM stub.
+ *
+ * Each answer is assembled from one opening, one detail and one closing of its
+ * question, and premium answers add a follow-up. Placeholders in braces are filled
+ * in from the customer profile ({role}, {industry}, {range}, {employees}) and from
+ * the interviewee's persona, drawn from `PERSONA_TRAITS`.
+ */
+
+/**
+ * Persona traits an interviewee is given, one value of each.
+ */
+export const PERSONA_TRAITS = {
+  tool: ["spreadsheets", "Jira", "a shared Notion workspace", "Salesforce", "an in-house dashboard", "email threads"],
+  tool2: ["Slack", "Microsoft Teams", "Google Drive", "Confluence", "a legacy ERP system"],
+  meeting: ["daily stand-up", "weekly planning meeting", "Monday pipeline review", "morning huddle", "fortnightly retro"],
+  metric: ["turnaround time", "customer satisfaction scores", "cost per project", "error rates", "time to close", "on-time delivery"],
+  colleague: ["my manager", "our operations lead", "the finance team", "two colleagues on my team", "our head of department"],
+  hours: ["an hour", "two hours", "half a day", "most of Friday afternoon"],
+  percent: ["20 percent", "30 percent", "40 percent", "a quarter"],
+} as const;
+
+/**
+ * Building blocks of the answer to one question.
+ */
+export interface AnswerTemplate {
+  /** First paragraph, setting the scene */
+  openings: readonly string[];
+  /** Middle paragraph, with a concrete example */
+  details: readonly string[];
+  /** Last paragraph, wrapping up */
+  closings: readonly string[];
+  /** Follow-up exchanges added to premium answers */
+  followUps: readonly string[];
+}
+
+/**
+ * Answer templates by interview field.
+ */
+export const ANSWER_TEMPLATES = {
+  question_one: {
+    openings: [
+      "Sure. As a {role} in {industry} with {range} years behind me, my day usually starts with the {meeting}, where we agree on what matters most for the next few days.",
+      "No two days are the same, but there is a rhythm. I'm a {role} at a company of about {employees} people, and I start by going through {tool} to see what changed overnight.",
+      "I've been a {role} for {range} years now, currently in {industry}. Mornings are for the {meeting} and catching up with {colleague}; the real work happens after that.",
+    ],
+    details: [
+      "Most of the morning goes into hands-on work. Yesterday, for example, I spent {hours} reconciling figures between {tool} and {tool2} because the two had drifted apart.",
+      "After that it's a mix of focused work and interruptions. I'd say {percent} of my time goes into answering questions that someone could have found in {tool} if it were easier to search.",
+      "The afternoon is usually coordination: chasing updates, preparing for the next {meeting}, and making sure {colleague} has what they need to make decisions.",
+    ],
+    closings: [
+      "I finish by updating {tool} so the next morning starts from a clean slate, although that rarely happens in practice.",
+      "By the end of the day I try to block thirty minutes to plan tomorrow, otherwise the week gets away from me.",
+      "It's a full day, and honestly the parts I enjoy most are the ones where I'm actually solving problems rather than moving information around.",
+    ],
+    followUps: [
+      "What part of the day would you cut if you could? The status chasing. It adds nothing, and it takes {hours} a week at least.",
+      "How has that changed over your career? With {range} years of experience I spend far more time coordinating than doing, which I didn't expect.",
+      "Who depends on your work the most? {colleague}, mostly. If I'm late, their week slips too.",
+    ],
+  },
+  question_two: {
+    openings: [
+      "The biggest frustration is that information is scattered. We track work in {tool}, but half of the decisions happen in {tool2}, so context gets lost.",
+      "Honestly, it's the manual work. For a company of {employees} people we still do a surprising amount of copy-pasting between {tool} and {tool2}.",
+      "Visibility. As a {role} I'm expected to know where everything stands, but the only way to find out is to ask people directly.",
+    ],
+    details: [
+      "Last month two people on my team worked on the same request for a week before anyone noticed. That's the kind of thing that happens every few weeks.",
+      "Every {meeting} starts with ten minutes of working out which version of the numbers is the right one. Nobody trusts the reports fully.",
+      "When someone is away, their knowledge is away too. We lost {hours} recently reconstructing why a decision had been made.",
+    ],
+    closings: [
+      "None of it is dramatic on its own, but it adds up, and it's the part of the job that wears people down.",
+      "I've raised it with {colleague} several times; everyone agrees it's a problem, but it never becomes the priority.",
+      "It's frustrating because it feels solvable. It's not a hard problem, just one nobody owns.",
+    ],
+    followUps: [
+      "How often does that happen? I'd say weekly. Small versions of it happen daily.",
+      "Which of these would you fix first? The duplicated work, because it costs us real money and morale.",
+      "Does it affect everyone equally? No, newer colleagues suffer most, since they don't know who to ask.",
+    ],
+  },
+  question_three: {
+    openings: [
+      "Today we rely on {tool}, plus a lot of manual follow-up in {tool2}. It works for small pieces of work, but it doesn't scale.",
+      "We've built our own workarounds: a master spreadsheet, a checklist for the {meeting}, and a lot of reminders.",
+      "Mostly discipline. We have {tool}, and the rule is that everything goes in there, but keeping it up to date depends on everyone doing their part.",
+    ],
+    details: [
+      "We trialled a dedicated tool last year, but it didn't fit how we work in {industry}, and adoption faded within a couple of months.",
+      "{colleague} set up some automations between {tool} and {tool2}, but they break whenever someone renames a field, and nobody else knows how to fix them.",
+      "I keep my own notes on the side, which I know isn't ideal. At least I can find things in them, which I can't always say about {tool}.",
+    ],
+    closings: [
+      "So it's a patchwork. It gets us through the week, but it relies on a few people holding it together.",
+      "I wouldn't call any of it a solution, more a set of habits we've built up to cope.",
+      "It's good enough that nobody wants to pay for something new, and bad enough that everyone complains about it.",
+    ],
+    followUps: [
+      "Why did the trial fail? Setup took weeks, and in the meantime people went back to {tool} because that's where everything already was.",
+      "What do you pay for the current setup? Not much in licences, but a lot in time. I'd guess {hours} a week per person.",
+      "Who decides on new tools? {colleague} signs off, but they listen to people like me who use the tools every day.",
+    ],
+  },
+  question_four: {
+    openings: [
+      "It shows up directly in {metric}. When handovers slip, deadlines slip, and we end up explaining delays to customers.",
+      "The most visible impact is on {metric}, which is one of the numbers we're measured on, so it matters a lot.",
+      "It slows everything down. As a {role} I end up firefighting instead of improving things, and that's noticed at review time.",
+    ],
+    details: [
+      "If I had to put a number on it, we lose one or two days per month across the team, which for a company of {employees} people is significant.",
+      "Last quarter we missed our target on {metric}, and when we looked back, a good share of it came down to information not reaching the right person in time.",
+      "It also affects morale. People didn't join {industry} to chase updates, and a couple of good colleagues have said as much when they left.",
+    ],
+    closings: [
+      "So it's not just an inconvenience; it's a real cost that we've accepted as normal.",
+      "Leadership sees the symptoms in the numbers, but not always the cause.",
+      "If we fixed it, I think we'd see the improvement within a quarter.",
+    ],
+    followUps: [
+      "Has anyone tried to measure it? {colleague} did a rough estimate once and came up with {percent} of the team's time.",
+      "Who feels it most? Customers, eventually, through {metric}. Internally, it's the people who do handovers.",
+      "Would fixing it change your priorities? Yes, I'd finally have time for the improvement work that keeps getting pushed back.",
+    ],
+  },
+  question_five: {
+    openings: [
+      "Ideally, one place that pulls everything together automatically, so I don't have to go looking.",
+      "Something that tells me what changed since yesterday and what needs my attention, without me having to ask around.",
+      "Honestly, less tooling rather than more: something that fits into {tool} rather than replacing it.",
+    ],
+    details: [
+      "It would flag risks before they hit {metric}, for example when a piece of work has had no activity for a few days or is waiting on someone who is away.",
+      "It has to work with {tool} and {tool2} out of the box. If it needs a long setup project, it won't happen at a company of our size.",
+      "The key is that nobody has to remember to update it. The moment it depends on discipline, it ends up like everything else we've tried.",
+    ],
+    closings: [
+      "If I could see that working with our own data in the first week, I'd champion it internally.",
+      "Price matters less than adoption. I'd rather pay more for something people actually use.",
+      "And it should make {colleague}'s life easier too, otherwise it won't get approved.",
+    ],
+    followUps: [
+      "What would make you switch? Seeing it handle one of our real weeks, not a demo dataset.",
+      "What would make you stop using it? If it added another inbox I have to check.",
+      "How would you judge success after three months? Fewer status questions and a visible improvement in {metric}.",
+    ],
+  },
+} as const satisfies Record<string, AnswerTemplate>;
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { ActiveJob } from "@/types";
+import { ACTIVE_JOBS_STORAGE_KEY } from "@/constants/app";
+
+/**
+ * Reads the saved active jobs, keeping only well-formed entries.
+ *
+ * @returns Saved jobs, most recent first
+ */
+function readActiveJobs(): ActiveJob[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACTIVE_JOBS_STORAGE_KEY) ?? "[]");
+
+    if (!Array.isArray(saved)) {
+      return [];
+    }
+
+    return saved
+      .filter(
+        (job): job is ActiveJob =>
+          typeof job?.sessionId === "string" &&
+          typeof job.jobId === "string" &&
+          typeof job.startedAt === "string"
+      )
+      .map((job) => ({ ...job, profile: job.profile ?? null }));
+  } catch {
+    // Storage may be unavailable (e.g. disabled cookies) or hold corrupt data
+    return [];
+  }
+}
+
+/**
+ * Saves the active jobs.
+ *
+ * @param jobs - Active jobs, most recent first
+ */
+function writeActiveJobs(jobs: ActiveJob[]): void {
+  try {
+    localStorage.setItem(ACTIVE_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    // Jobs are still followed in this tab, just not resumed after a reload
+  }
+}
+
+/**
+ * Hook for the generation jobs started in this browser, saved to local storage.
+ *
+ * Jobs are keyed to their checkout session (or credit order) and kept until their
+ * results have been shown, so closing the tab mid-run loses nothing: the app picks
+ * the job up again on the next visit. Saved jobs are restored after mounting, so
+ * server and client renders match, and stay in sync across tabs.
+ *
+ * @returns Active jobs, most recent first, and functions to add and remove one
+ */
+export function useActiveJobs() {
+  const [activeJobs, setActiveJobs] = useState<ActiveJob[]>([]);
+
+  // Restore saved jobs, and follow changes made in other tabs
+  useEffect(() => {
+    setActiveJobs(readActiveJobs());
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ACTIVE_JOBS_STORAGE_KEY) {
+        setActiveJobs(readActiveJobs());
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  /**
+   * Saves a job, replacing any saved job of the same checkout session.
+   *
+   * @param job - Job that has just started
+   */
+  const trackJob = (job: ActiveJob): void => {
+    setActiveJobs((current) => {
+      const next = [job, ...current.filter(({ sessionId }) => sessionId !== job.sessionId)];
+      writeActiveJobs(next);
+      return next;
+    });
+  };
+
+  /**
+   * Forgets a job.
+   *
+   * @param jobId - Job ID
+   */
+  const untrackJob = (jobId: string): void => {
+    setActiveJobs((current) => {
+      const next = current.filter((job) => job.jobId !== jobId);
+      writeActiveJobs(next);
+      return next;
+    });
+  };
+
+  return { activeJobs, trackJob, untrackJob };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import useSWR from "swr";
+
+import { CreditBalance } from "@/types";
+import { API_ENDPOINTS } from "@/constants/app";
+
+/**
+ * Fetches the credit balance of the current account.
+ *
+ * @param url - Credits API endpoint
+ * @returns Promise resolving to the balance with ledger history
+ * @throws Error if the request fails
+ */
+const fetchCredits = async (url: string): Promise<CreditBalance> => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load credits");
+  }
+
+  return response.json();
+};
+
+/**
+ * Hook for the credit balance of the current account.
+ * Components using it share one cached request, so updating the balance in one
+ * place (e.g. after spending credits) updates it everywhere.
+ *
+ * @returns Current balance (0 while loading), ledger entries, loading flag and
+ *   a `mutate` function to update or revalidate the balance
+ */
+export function useCredits() {
+  const { data, error, isLoading, mutate } = useSWR(API_ENDPOINTS.CREDITS, fetchCredits, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    balance: data?.balance ?? 0,
+    entries: data?.entries ?? [],
+    isLoading,
+    error,
+    mutate,
+  };
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { InterviewFormValues } from "@/types";
+import { isPricingTierId } from "@/lib/pricing";
+import {
+  DEFAULT_INTERVIEW_COUNT,
+  DEFAULT_PRICING_TIER,
+  FORM_DRAFT_STORAGE_KEY,
+  MAX_INTERVIEW_COUNT,
+  MIN_INTERVIEW_COUNT,
+} from "@/constants/app";
+
+/**
+ * Values of an untouched interview form.
+ */
+export const DEFAULT_FORM_VALUES: InterviewFormValues = {
+  role: "",
+  industry: "",
+  experienceRange: "",
+  employeeRange: "",
+  interviews: DEFAULT_INTERVIEW_COUNT,
+  tier: DEFAULT_PRICING_TIER,
+  promoCode: "",
+};
+
+/**
+ * Reads the saved form draft, keeping only well-formed values.
+ *
+ * @returns Saved form values, or null if there is no usable draft
+ */
+function readDraft(): InterviewFormValues | null {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(FORM_DRAFT_STORAGE_KEY) ?? "null");
+
+    if (!saved || typeof saved !== "object") {
+      return null;
+    }
+
+    const text = (value: unknown): string => (typeof value === "string" ? value : "");
+    const interviews = Number(saved.interviews);
+
+    return {
+      role: text(saved.role),
+      industry: text(saved.industry),
+      experienceRange: text(saved.experienceRange),
+      employeeRange: text(saved.employeeRange),
+      interviews:
+        interviews >= MIN_INTERVIEW_COUNT && interviews <= MAX_INTERVIEW_COUNT
+          ? interviews
+          : DEFAULT_INTERVIEW_COUNT,
+      tier: isPricingTierId(saved.tier) ? saved.tier : DEFAULT_PRICING_TIER,
+      promoCode: text(saved.promoCode),
+    };
+  } catch {
+    // Storage may be unavailable (e.g. disabled cookies) or hold a corrupt draft
+    return null;
+  }
+}
+
+/**
+ * Saves the form draft.
+ *
+ * @param values - Current form values
+ */
+function writeDraft(values: InterviewFormValues): void {
+  try {
+    sessionStorage.setItem(FORM_DRAFT_STORAGE_KEY, JSON.stringify(values));
+  } catch {
+    // The form still works without a saved draft
+  }
+}
+
+/**
+ * Hook for the interview form values, saved to session storage as they change.
+ *
+ * The draft survives the redirect to the payment provider and back, whether the
+ * buyer pays or cancels, so the form is restored as they left it. It is kept per
+ * browser tab and restored after mounting, so server and client renders match.
+ *
+ * @returns Current form values and a function to update some of them
+ */
+export function useFormDraft() {
+  const [values, setValues] = useState<InterviewFormValues>(DEFAULT_FORM_VALUES);
+
+  // Restore the draft saved before leaving for checkout
+  useEffect(() => {
+    const draft = readDraft();
+
+    if (draft) {
+      setValues(draft);
+    }
+  }, []);
+
+  /**
+   * Updates form values and saves the draft.
+   * Changes are applied to the latest values, so several updates made before the
+   * next render are all kept.
+   *
+   * @param changes - Changed form values
+   */
+  const updateValues = (changes: Partial<InterviewFormValues>): void => {
+    setValues((previous) => {
+      const next = { ...previous, ...changes };
+      // Saving the same values again is harmless if React calls this twice
+      writeDraft(next);
+      return next;
+    });
+  };
+
+  return { values, updateValues };
+}
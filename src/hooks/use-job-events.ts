@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { JobInterviewProgress, JobStatus } from "@/types";
+import { API_ENDPOINTS } from "@/constants/app";
+
+/**
+ * Hook following a generation job over its Server-Sent Events stream.
+ *
+ * Keeps the job's pending status up to date as each interview finishes, with the
+ * interviews generated so far, and calls `onFinished` once the job completes or
+ * fails. If the stream cannot be opened or drops before the job finishes (e.g. an
+ * external generation service without the events endpoint, or a proxy closing the
+ * connection), it is closed for good and `fallback` turns true, so the caller can
+ * poll the status endpoint instead.
+ *
+ * @param jobId - Job to follow, or null when there is none
+ * @param onFinished - Called with the final job status
+ * @returns Pending job status (null until the first event) and whether to fall back to polling
+ */
+export function useJobEvents(
+  jobId: string | null,
+  onFinished: (status: JobStatus) => void
+) {
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [fallback, setFallback] = useState(false);
+
+  // Latest callback, so a new render's callback does not reopen the stream
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setStatus(null);
+    setFallback(false);
+
+    if (!jobId) {
+      return;
+    }
+
+    if (typeof EventSource === "undefined") {
+      setFallback(true);
+      return;
+    }
+
+    const events = new EventSource(
+      `${process.env.NEXT_PUBLIC_API_URL ?? ""}${API_ENDPOINTS.INTERVIEW_EVENTS}/${jobId}`
+    );
+
+    const handleProgress = (event: MessageEvent<string>) => {
+      setStatus(JSON.parse(event.data));
+    };
+    const handleInterview = (event: MessageEvent<string>) => {
+      const { progress, processed, interviews, interview }: JobInterviewProgress =
+        JSON.parse(event.data);
+
+      setStatus((current) => {
+        // The first status may already include this interview
+        if (current?.remaining !== undefined && interviews - current.remaining >= processed) {
+          return current;
+        }
+
+        return {
+          status: "pending",
+          progress,
+          data: interview ? [...(current?.data ?? []), interview] : current?.data,
+          remaining: interviews - processed,
+        };
+      });
+    };
+    const handleFinished = (event: MessageEvent<string>) => {
+      events.close();
+      onFinishedRef.current(JSON.parse(event.data));
+    };
+
+    events.addEventListener("progress", handleProgress);
+    events.addEventListener("interview", handleInterview);
+    events.addEventListener("completed", handleFinished);
+    events.addEventListener("failed", handleFinished);
+    events.onerror = () => {
+      // EventSource would keep reconnecting; polling takes over instead
+      events.close();
+      setFallback(true);
+    };
+
+    return () => events.close();
+  }, [jobId]);
+
+  return { status, fallback };
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import useSWR from "swr";
+import { useEffect, useState } from "react";
+
+import { PricingTierId, PromoCodeResponse } from "@/types";
+import { validatePromoCode } from "@/lib/validation";
+import { API_ENDPOINTS, PROMO_CODE_CHECK_DELAY } from "@/constants/app";
+
+/**
+ * Checks a promotion code with the server.
+ *
+ * @param key - SWR key: endpoint, code, interview count and tier
+ * @returns Promise resolving to the discounted price
+ * @throws Error with the field-level message if the code cannot be redeemed
+ */
+const fetchPromoCode = async ([url, code, interviews, tier]: [
+  string,
+  string,
+  number,
+  PricingTierId,
+]): Promise<PromoCodeResponse> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ promo_code: code, interviews, tier }),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.errors?.promoCode || result.error || "Failed to check promo code");
+  }
+
+  return result;
+};
+
+/**
+ * Hook for live validation of the promotion code entered in the form.
+ * The code is checked once typing pauses, and again when the batch changes, so
+ * the discounted price always matches the selected interviews and plan.
+ *
+ * @param promoCode - Code as typed by the user
+ * @param interviews - Selected number of interviews
+ * @param tier - Selected pricing tier
+ * @returns Discounted price once the code is redeemable, the reason it is not,
+ *   and whether a check is in progress
+ */
+export function usePromoCode(promoCode: string, interviews: number, tier: PricingTierId) {
+  const code = promoCode.trim().toUpperCase();
+  const [checkedCode, setCheckedCode] = useState(code);
+
+  // Wait for typing to pause before checking the code
+  useEffect(() => {
+    const timeout = setTimeout(() => setCheckedCode(code), PROMO_CODE_CHECK_DELAY);
+    return () => clearTimeout(timeout);
+  }, [code]);
+
+  const formatValidation = validatePromoCode(checkedCode);
+  const { data, error, isLoading } = useSWR(
+    checkedCode && formatValidation.isValid
+      ? [API_ENDPOINTS.PROMO_CODE, checkedCode, interviews, tier]
+      : null,
+    fetchPromoCode,
+    {
+      revalidateOnFocus: false,
+      shouldRetryOnError: false,
+    }
+  );
+
+  if (!code) {
+    return { price: null, error: undefined, isChecking: false };
+  }
+
+  return {
+    price: code === checkedCode ? data?.price ?? null : null,
+    error: code === checkedCode
+      ? formatValidation.error ?? (error instanceof Error ? error.message : undefined)
+      : undefined,
+    isChecking: code !== checkedCode || isLoading,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Anonymous accounts identified by a cookie.
+ *
+ * The app has no sign-in, so credit balances belong to a random account ID kept
+ * in an HTTP-only cookie. The ID is created on the first request that needs it.
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Name of the cookie holding the account ID */
+const ACCOUNT_COOKIE = "account_id";
+
+/** Account cookie lifetime in seconds (one year) */
+const ACCOUNT_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Account resolved for a request.
+ */
+export interface RequestAccount {
+  /** Account ID */
+  id: string;
+  /** Whether the ID was created for this request and must be stored in the cookie */
+  isNew: boolean;
+}
+
+/**
+ * Resolves the account for a request, creating a new one if the cookie is missing.
+ *
+ * @param request - Next.js request object
+ * @returns Account for the request
+ */
+export function resolveAccount(request: NextRequest): RequestAccount {
+  const id = request.cookies.get(ACCOUNT_COOKIE)?.value;
+
+  return id ? { id, isNew: false } : { id: randomUUID(), isNew: true };
+}
+
+/**
+ * Stores a newly created account ID in the response cookie.
+ *
+ * @param response - Response to the request
+ * @param account - Account resolved for the request
+ * @returns The same response
+ */
+export function withAccountCookie<T extends NextResponse>(
+  response: T,
+  account: RequestAccount
+): T {
+  if (account.isNew) {
+    response.cookies.set(ACCOUNT_COOKIE, account.id, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: ACCOUNT_COOKIE_MAX_AGE,
+      path: "/",
+    });
+  }
+
+  return response;
+}
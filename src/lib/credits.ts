@@ -0,0 +1,189 @@
+/**
+ * Prepaid credit ledger.
+ *
+ * Balances are never stored directly; they are the sum of an account's ledger
+ * entries, so every purchase, consumption and credit-back stays auditable.
+ */
+
+import { randomUUID } from "crypto";
+
+import { CreditBalance, CreditLedgerEntry } from "@/types";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * Persisted ledger document.
+ */
+interface CreditLedger {
+  /** All entries for all accounts, in the order they were recorded */
+  entries: CreditLedgerEntry[];
+}
+
+const ledger = createJsonStore<CreditLedger>("credits.json", () => ({ entries: [] }));
+
+/**
+ * Error raised when an account cannot cover a credit consumption.
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(readonly balance: number, readonly required: number) {
+    super(`Insufficient credits: ${required} required, ${balance} available`);
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+/**
+ * Summarises the ledger entries of one account.
+ *
+ * @param data - Ledger document
+ * @param accountId - Account to summarise
+ * @returns Balance and entries, most recent first
+ */
+function summarize(data: CreditLedger, accountId: string): CreditBalance {
+  const entries = data.entries.filter((entry) => entry.accountId === accountId);
+
+  return {
+    balance: entries.reduce((total, entry) => total + entry.amount, 0),
+    entries: entries.reverse(),
+  };
+}
+
+/**
+ * Appends an entry to the ledger document.
+ *
+ * @param data - Ledger document
+ * @param entry - Entry fields
+ */
+function appendEntry(
+  data: CreditLedger,
+  entry: Omit<CreditLedgerEntry, "id" | "createdAt">
+): void {
+  data.entries.push({
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...entry,
+  });
+}
+
+/**
+ * Returns the credit balance of an account.
+ *
+ * @param accountId - Account ID
+ * @returns Balance with ledger history
+ */
+export async function getCreditBalance(accountId: string): Promise<CreditBalance> {
+  return summarize(await ledger.read(), accountId);
+}
+
+/**
+ * Records a credit pack purchase. Recording the same checkout session twice has no effect.
+ *
+ * @param accountId - Account that bought the credits
+ * @param credits - Number of credits bought
+ * @param sessionId - Checkout session the credits were paid with
+ * @returns Balance after the purchase
+ */
+export async function addCreditPurchase(
+  accountId: string,
+  credits: number,
+  sessionId: string
+): Promise<CreditBalance> {
+  return ledger.update((data) => {
+    const recorded = data.entries.some(
+      (entry) => entry.type === "purchase" && entry.reference === sessionId
+    );
+
+    if (!recorded) {
+      appendEntry(data, {
+        accountId,
+        type: "purchase",
+        amount: credits,
+        reference: sessionId,
+        description: `Purchased ${credits} credits`,
+      });
+    }
+
+    return summarize(data, accountId);
+  });
+}
+
+/**
+ * Spends credits on a generation run.
+ *
+ * @param accountId - Account spending the credits
+ * @param credits - Number of credits to spend
+ * @param orderId - Generation order the credits pay for
+ * @returns Balance after the consumption
+ * @throws InsufficientCreditsError if the balance does not cover the credits
+ */
+export async function consumeCredits(
+  accountId: string,
+  credits: number,
+  orderId: string
+): Promise<CreditBalance> {
+  return ledger.update((data) => {
+    const { balance } = summarize(data, accountId);
+
+    if (balance < credits) {
+      throw new InsufficientCreditsError(balance, credits);
+    }
+
+    appendEntry(data, {
+      accountId,
+      type: "consumption",
+      amount: -credits,
+      reference: orderId,
+      description: `Generated ${credits} interviews`,
+    });
+
+    return summarize(data, accountId);
+  });
+}
+
+/**
+ * Returns the number of credits spent on a generation order.
+ *
+ * @param orderId - Generation order ID
+ * @returns Credits consumed by the order, 0 if it was never paid for
+ */
+export async function getCreditsSpent(orderId: string): Promise<number> {
+  const { entries } = await ledger.read();
+
+  return entries
+    .filter((entry) => entry.type === "consumption" && entry.reference === orderId)
+    .reduce((total, entry) => total - entry.amount, 0);
+}
+
+/**
+ * Returns credits to an account, e.g. for interviews that were not delivered.
+ * Each order is credited back at most once: returning credits for the same
+ * reference again has no effect.
+ *
+ * @param accountId - Account to credit
+ * @param credits - Number of credits to return
+ * @param reference - Order or checkout session the credits are returned for
+ * @param description - Reason for the credit-back
+ * @returns Balance after the credit-back
+ */
+export async function refundCredits(
+  accountId: string,
+  credits: number,
+  reference: string,
+  description: string
+): Promise<CreditBalance> {
+  return ledger.update((data) => {
+    const recorded = data.entries.some(
+      (entry) => entry.type === "refund" && entry.reference === reference
+    );
+
+    if (!recorded) {
+      appendEntry(data, {
+        accountId,
+        type: "refund",
+        amount: credits,
+        reference,
+        description,
+      });
+    }
+
+    return summarize(data, accountId);
+  });
+}
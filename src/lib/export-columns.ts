@@ -0,0 +1,154 @@
+/**
+ * Column selection and ordering for interview exports.
+ * Shared by the export route, the document renderers and the client-side column pickers.
+ */
+
+import { ExportColumn, Interview } from "@/types";
+import { INTERVIEW_COLUMNS, QUESTION_FIELDS } from "@/constants/app";
+
+/** Every exportable column, in default export order */
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = INTERVIEW_COLUMNS.map(
+  ({ field }) => field
+);
+
+/**
+ * Splits a comma-separated column list into trimmed, non-empty keys.
+ *
+ * @param value - Raw parameter value (e.g., "role, question_two")
+ * @returns Column keys in the order given
+ */
+function parseColumnList(value: string): string[] {
+  return value
+    .split(",")
+    .map((column) => column.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Validates a list of column keys against the known interview fields.
+ *
+ * @param keys - Column keys to validate
+ * @param parameter - Parameter name for error messages
+ * @returns Validated column keys
+ * @throws Error if a key is unknown or repeated
+ */
+function validateColumnList(keys: string[], parameter: string): ExportColumn[] {
+  const seen = new Set<string>();
+
+  for (const key of keys) {
+    if (!DEFAULT_EXPORT_COLUMNS.includes(key as ExportColumn)) {
+      throw new Error(
+        `Unknown column '${key}' in '${parameter}'. Supported columns: ${DEFAULT_EXPORT_COLUMNS.join(", ")}`
+      );
+    }
+
+    if (seen.has(key)) {
+      throw new Error(`Column '${key}' is listed more than once in '${parameter}'`);
+    }
+
+    seen.add(key);
+  }
+
+  return keys as ExportColumn[];
+}
+
+/**
+ * Resolves the `columns` and `order` export parameters into the final column list.
+ *
+ * - `columns` whitelists fields; when omitted every field is exported.
+ * - `order` moves the listed fields to the front in the given order; the remaining
+ *   selected fields keep their relative order.
+ *
+ * @param columns - Comma-separated whitelist, or null for all columns
+ * @param order - Comma-separated ordering, or null to keep the default order
+ * @returns Columns to export, in export order
+ * @throws Error if either parameter is empty, names unknown columns or orders unselected ones
+ */
+export function resolveExportColumns(
+  columns: string | null,
+  order: string | null
+): ExportColumn[] {
+  let selected = DEFAULT_EXPORT_COLUMNS;
+
+  if (columns !== null) {
+    const keys = validateColumnList(parseColumnList(columns), "columns");
+
+    if (keys.length === 0) {
+      throw new Error("At least one column must be selected");
+    }
+
+    selected = keys;
+  }
+
+  if (order === null) {
+    return selected;
+  }
+
+  const ordered = validateColumnList(parseColumnList(order), "order");
+  const notSelected = ordered.filter((key) => !selected.includes(key));
+
+  if (notSelected.length > 0) {
+    throw new Error(
+      `Cannot order columns that are not selected: ${notSelected.join(", ")}`
+    );
+  }
+
+  return [...ordered, ...selected.filter((key) => !ordered.includes(key))];
+}
+
+/**
+ * Picks the selected fields from an interview, in export order.
+ *
+ * @param interview - Interview to project
+ * @param columns - Columns to keep
+ * @returns Object containing only the selected fields, with keys in export order
+ */
+export function projectInterview(
+  interview: Interview,
+  columns: ExportColumn[]
+): Partial<Interview> {
+  return Object.fromEntries(columns.map((column) => [column, interview[column]]));
+}
+
+/**
+ * Returns the selected question fields with their labels, in export order.
+ *
+ * @param columns - Selected columns
+ * @returns Question fields to render as document sections
+ */
+export function getSelectedQuestions(columns: ExportColumn[]) {
+  return columns.flatMap((column) =>
+    QUESTION_FIELDS.filter(({ field }) => field === column)
+  );
+}
+
+/**
+ * Returns every selected column with its display label, in export order.
+ *
+ * @param columns - Selected columns
+ * @returns Column definitions for tabular formats
+ */
+export function getSelectedColumns(columns: ExportColumn[]) {
+  return columns.flatMap((column) =>
+    INTERVIEW_COLUMNS.filter(({ field }) => field === column)
+  );
+}
+
+/**
+ * Adds or removes a column from a selection, keeping the default column order.
+ * The last remaining column cannot be removed.
+ *
+ * @param columns - Current selection
+ * @param column - Column to toggle
+ * @returns Updated selection
+ */
+export function toggleExportColumn(
+  columns: ExportColumn[],
+  column: ExportColumn
+): ExportColumn[] {
+  if (columns.includes(column)) {
+    return columns.length > 1 ? columns.filter((key) => key !== column) : columns;
+  }
+
+  return DEFAULT_EXPORT_COLUMNS.filter((key) => key === column || columns.includes(key));
+}
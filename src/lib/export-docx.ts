@@ -0,0 +1,151 @@
+/**
+ * Word (DOCX) rendering for interview exports.
+ * Produces an Office Open XML document with one styled section per interview.
+ */
+
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+
+import { ExportColumn, Interview } from "@/types";
+import { getInterviewHeading } from "@/lib/export-markdown";
+import { DEFAULT_EXPORT_COLUMNS, getSelectedQuestions } from "@/lib/export-columns";
+import { MarkdownBlock, parseMarkdownBlocks } from "@/lib/markdown-blocks";
+
+const BULLET_LIST = "interview-bullets";
+const NUMBERED_LIST = "interview-numbers";
+
+/**
+ * Word heading levels used for Markdown headings inside answers.
+ * Answers sit below Heading 2, so their headings start at Heading 3.
+ */
+const ANSWER_HEADINGS = [
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+] as const;
+
+/**
+ * Converts a parsed Markdown block into a Word paragraph.
+ *
+ * @param block - Parsed answer block
+ * @param listInstance - Numbering instance, so each numbered list restarts at its first number
+ * @returns Word paragraph
+ */
+function toParagraph(block: MarkdownBlock, listInstance: number): Paragraph {
+  const children = block.runs.map(
+    (run) => new TextRun({ text: run.text, bold: run.bold, italics: run.italic })
+  );
+
+  switch (block.type) {
+    case "heading":
+      return new Paragraph({
+        children,
+        heading: ANSWER_HEADINGS[Math.min((block.level ?? 1) - 1, ANSWER_HEADINGS.length - 1)],
+      });
+    case "bullet":
+      return new Paragraph({ children, numbering: { reference: BULLET_LIST, level: 0 } });
+    case "numbered":
+      return new Paragraph({
+        children,
+        numbering: { reference: NUMBERED_LIST, level: 0, instance: listInstance },
+      });
+    default:
+      return new Paragraph({ children, spacing: { after: 120 } });
+  }
+}
+
+/**
+ * Converts answer Markdown into Word paragraphs.
+ *
+ * @param markdown - Answer text
+ * @param nextListInstance - Returns a fresh numbering instance for each new numbered list
+ * @returns Word paragraphs in document order
+ */
+function renderAnswer(markdown: string, nextListInstance: () => number): Paragraph[] {
+  let listInstance = 0;
+  let previous: MarkdownBlock["type"] | undefined;
+
+  return parseMarkdownBlocks(markdown).map((block) => {
+    if (block.type === "numbered" && previous !== "numbered") {
+      listInstance = nextListInstance();
+    }
+    previous = block.type;
+
+    return toParagraph(block, listInstance);
+  });
+}
+
+/**
+ * Renders interviews as a Word document.
+ * Each interview gets a Heading 1, each question a Heading 2, and a page break separates interviews.
+ *
+ * @param interviews - Interviews to include
+ * @param title - Document title stored in the file properties
+ * @param columns - Exported columns
+ * @returns DOCX file contents
+ */
+export async function renderInterviewsDocx(
+  interviews: Interview[],
+  title: string,
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS
+): Promise<ArrayBuffer> {
+  let listInstances = 0;
+  const nextListInstance = () => ++listInstances;
+  const questions = getSelectedQuestions(columns);
+
+  const children = interviews.flatMap((interview, index) => [
+    new Paragraph({
+      text: getInterviewHeading(interview, index, columns),
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: index > 0,
+    }),
+    ...questions.flatMap(({ field, label }) => [
+      new Paragraph({ text: label, heading: HeadingLevel.HEADING_2 }),
+      ...renderAnswer(interview[field], nextListInstance),
+    ]),
+  ]);
+
+  const document = new Document({
+    title,
+    creator: "AI Interview Generator",
+    numbering: {
+      config: [
+        {
+          reference: BULLET_LIST,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.BULLET,
+              text: "•",
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+            },
+          ],
+        },
+        {
+          reference: NUMBERED_LIST,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.DECIMAL,
+              text: "%1.",
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toArrayBuffer(document);
+}
@@ -0,0 +1,55 @@
+/**
+ * JSON envelope rendering for interview exports.
+ * The envelope format is described by `public/schemas/interview-export.v1.schema.json`.
+ */
+
+import {
+  ExportColumn,
+  Interview,
+  InterviewExportEnvelope,
+  InterviewProfile,
+} from "@/types";
+import { getSelectedQuestions, projectInterview } from "@/lib/export-columns";
+
+/** Current envelope format version */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/** Public path of the JSON Schema describing the envelope */
+export const EXPORT_SCHEMA_PATH = "/schemas/interview-export.v1.schema.json";
+
+/**
+ * Options for building a JSON export envelope.
+ */
+export interface ExportEnvelopeOptions {
+  /** Customer profile the interviews were generated for */
+  profile: InterviewProfile;
+  /** Exported columns */
+  columns: ExportColumn[];
+  /** When the interviews were generated, or null if unknown */
+  generatedAt: Date | null;
+  /** Export timestamp; defaults to now */
+  exportedAt?: Date;
+}
+
+/**
+ * Wraps interviews in a versioned envelope with their generation metadata.
+ *
+ * @param interviews - Interviews to export
+ * @param options - Customer profile, columns, and generation and export timestamps
+ * @returns Envelope ready to be serialised as JSON
+ */
+export function buildExportEnvelope(
+  interviews: Interview[],
+  { profile, columns, generatedAt, exportedAt = new Date() }: ExportEnvelopeOptions
+): InterviewExportEnvelope {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt?.toISOString() ?? null,
+    exportedAt: exportedAt.toISOString(),
+    profile,
+    questionLabels: Object.fromEntries(
+      getSelectedQuestions(columns).map(({ field, label }) => [field, label])
+    ),
+    interviews: interviews.map((interview) => projectInterview(interview, columns)),
+  };
+}
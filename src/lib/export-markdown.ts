@@ -0,0 +1,71 @@
+/**
+ * Markdown rendering for interview exports.
+ * Produces a document that keeps the answer formatting shown in the interview table.
+ */
+
+import { ExportColumn, Interview } from "@/types";
+import { DEFAULT_EXPORT_COLUMNS, getSelectedQuestions } from "@/lib/export-columns";
+
+/**
+ * Builds the heading used for a single interview section.
+ * Role and industry are only included when they are among the exported columns.
+ *
+ * @param interview - Interview to describe
+ * @param index - Zero-based position of the interview in the export
+ * @param columns - Exported columns
+ * @returns Heading text (e.g., "Interview 1: Software Engineer, Technology")
+ */
+export function getInterviewHeading(
+  interview: Interview,
+  index: number,
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS
+): string {
+  const details = columns
+    .filter((column) => column === "role" || column === "industry")
+    .map((column) => interview[column]);
+
+  return details.length > 0
+    ? `Interview ${index + 1}: ${details.join(", ")}`
+    : `Interview ${index + 1}`;
+}
+
+/**
+ * Renders a single interview as a Markdown section.
+ * Answers are emitted verbatim so lists, emphasis and paragraphs survive the export.
+ *
+ * @param interview - Interview to render
+ * @param index - Zero-based position of the interview in the export
+ * @param columns - Exported columns
+ * @returns Markdown section for the interview
+ */
+export function renderInterviewMarkdown(
+  interview: Interview,
+  index: number,
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS
+): string {
+  const sections = getSelectedQuestions(columns).map(
+    ({ field, label }) => `### ${label}\n\n${interview[field].trim()}`
+  );
+
+  return [`## ${getInterviewHeading(interview, index, columns)}`, ...sections].join("\n\n");
+}
+
+/**
+ * Renders a list of interviews as a single Markdown document.
+ *
+ * @param interviews - Interviews to render
+ * @param title - Top-level document title
+ * @param columns - Exported columns
+ * @returns Markdown document with one section per interview
+ */
+export function renderInterviewsMarkdown(
+  interviews: Interview[],
+  title: string = "Interviews",
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS
+): string {
+  const body = interviews
+    .map((interview, index) => renderInterviewMarkdown(interview, index, columns))
+    .join("\n\n---\n\n");
+
+  return `# ${title}\n\n${body}\n`;
+}
@@ -0,0 +1,426 @@
+/**
+ * PDF report rendering for interview exports.
+ * Builds a paginated report (cover page, table of contents, one section per interview)
+ * entirely in JavaScript, so it runs server-side without a headless browser.
+ */
+
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  PageSizes,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+
+import { ExportColumn, Interview, InterviewProfile } from "@/types";
+import { getInterviewHeading } from "@/lib/export-markdown";
+import { DEFAULT_EXPORT_COLUMNS, getSelectedQuestions } from "@/lib/export-columns";
+import { parseMarkdownBlocks, TextRun } from "@/lib/markdown-blocks";
+
+/**
+ * Options for rendering an interview report.
+ */
+export interface PdfReportOptions {
+  /** Report title shown on the cover page */
+  title: string;
+  /** Customer profile the interviews were generated for */
+  profile: InterviewProfile;
+  /** Generation timestamp shown on the cover page */
+  generatedAt?: Date;
+  /** Exported columns; defaults to every interview field */
+  columns?: ExportColumn[];
+}
+
+const PAGE_SIZE = PageSizes.Letter;
+const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const LINE_HEIGHT = 1.4;
+const LIST_INDENT = 16;
+const LIST_MARKER_WIDTH = 14;
+const TOC_ENTRY_SIZE = 11;
+const TOC_ENTRY_SPACING = 22;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.12);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+
+/**
+ * Fonts used by the report, keyed by style.
+ */
+interface ReportFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+/**
+ * Text layout helper that flows styled runs across pages.
+ * Keeps track of the current page and vertical cursor position.
+ */
+class PdfLayout {
+  page!: PDFPage;
+  y = 0;
+  private readonly supported: Set<number>;
+
+  constructor(
+    readonly doc: PDFDocument,
+    readonly fonts: ReportFonts
+  ) {
+    this.supported = new Set(fonts.regular.getCharacterSet());
+  }
+
+  /** Usable content width between the page margins */
+  get width(): number {
+    return PAGE_SIZE[0] - MARGIN * 2;
+  }
+
+  /**
+   * Starts a new page and resets the cursor to the top margin.
+   */
+  addPage(): PDFPage {
+    this.page = this.doc.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+    return this.page;
+  }
+
+  /**
+   * Moves to a new page if less than the given height remains.
+   *
+   * @param height - Vertical space required in points
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  /**
+   * Replaces characters the standard PDF fonts cannot encode.
+   *
+   * @param text - Text to sanitize
+   * @returns Text containing only encodable characters
+   */
+  sanitize(text: string): string {
+    return Array.from(text.replace(/\t/g, "  "))
+      .map((char) => (this.supported.has(char.codePointAt(0)!) ? char : "?"))
+      .join("");
+  }
+
+  /**
+   * Selects the font for a run's formatting.
+   *
+   * @param run - Styled text run
+   * @returns Matching embedded font
+   */
+  fontFor(run: TextRun): PDFFont {
+    if (run.bold && run.italic) return this.fonts.boldItalic;
+    if (run.bold) return this.fonts.bold;
+    if (run.italic) return this.fonts.italic;
+    return this.fonts.regular;
+  }
+
+  /**
+   * Writes styled runs as a wrapped paragraph starting at the cursor.
+   *
+   * @param runs - Text runs to write
+   * @param size - Font size in points
+   * @param indent - Left indent relative to the margin
+   * @param marker - Optional list marker hung to the left of the first line
+   */
+  writeRuns(
+    runs: TextRun[],
+    size: number,
+    indent: number = 0,
+    marker?: string
+  ): void {
+    const lineHeight = size * LINE_HEIGHT;
+    const maxWidth = this.width - indent;
+    const spaceWidth = this.fonts.regular.widthOfTextAtSize(" ", size);
+    const words = runs.flatMap((run) =>
+      this.sanitize(run.text)
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((text) => ({ text, font: this.fontFor(run) }))
+    );
+
+    let x = 0;
+    this.ensureSpace(lineHeight);
+
+    if (marker) {
+      this.page.drawText(marker, {
+        x: MARGIN + indent - LIST_MARKER_WIDTH,
+        y: this.y - size,
+        size,
+        font: this.fonts.regular,
+        color: TEXT_COLOR,
+      });
+    }
+
+    for (const word of words) {
+      const wordWidth = word.font.widthOfTextAtSize(word.text, size);
+
+      if (x > 0 && x + spaceWidth + wordWidth > maxWidth) {
+        this.y -= lineHeight;
+        this.ensureSpace(lineHeight);
+        x = 0;
+      } else if (x > 0) {
+        x += spaceWidth;
+      }
+
+      this.page.drawText(word.text, {
+        x: MARGIN + indent + x,
+        y: this.y - size,
+        size,
+        font: word.font,
+        color: TEXT_COLOR,
+      });
+      x += wordWidth;
+    }
+
+    this.y -= lineHeight;
+  }
+
+  /**
+   * Writes a single line of text, truncated with an ellipsis if it does not fit.
+   *
+   * @param text - Text to write
+   * @param font - Font to use
+   * @param size - Font size in points
+   * @param maxWidth - Maximum line width
+   * @returns Width of the written text
+   */
+  writeLine(text: string, font: PDFFont, size: number, maxWidth = this.width): number {
+    let line = this.sanitize(text);
+
+    while (line.length > 1 && font.widthOfTextAtSize(line, size) > maxWidth) {
+      line = `${line.slice(0, -2).trimEnd()}…`;
+    }
+
+    this.page.drawText(line, {
+      x: MARGIN,
+      y: this.y - size,
+      size,
+      font,
+      color: TEXT_COLOR,
+    });
+
+    return font.widthOfTextAtSize(line, size);
+  }
+}
+
+/**
+ * Formats a profile range for display, falling back when it is unknown.
+ *
+ * @param value - Range value (e.g., "2-7")
+ * @param unit - Unit appended to the range
+ * @returns Display string
+ */
+function formatRange(value: string, unit: string): string {
+  return value ? `${value} ${unit}` : "Not specified";
+}
+
+/**
+ * Draws the cover page with the customer profile summary.
+ */
+function drawCoverPage(
+  layout: PdfLayout,
+  interviews: Interview[],
+  options: PdfReportOptions
+): void {
+  const { fonts } = layout;
+  const { profile, generatedAt = new Date() } = options;
+
+  layout.addPage();
+  layout.y -= 140;
+  layout.writeLine(options.title, fonts.bold, 28);
+  layout.y -= 44;
+  layout.writeLine("Ideal customer profile", fonts.regular, 14);
+  layout.y -= 40;
+
+  const rows: Array<[string, string]> = [
+    ["Role", profile.role || "Not specified"],
+    ["Industry", profile.industry || "Not specified"],
+    ["Experience", formatRange(profile.range, "years")],
+    ["Company size", formatRange(profile.employee_range, "employees")],
+    ...(profile.country ? [["Country", profile.country] as [string, string]] : []),
+    ["Interviews", String(interviews.length)],
+    ["Generated", generatedAt.toISOString().slice(0, 10)],
+  ];
+
+  for (const [label, value] of rows) {
+    layout.page.drawText(label, {
+      x: MARGIN,
+      y: layout.y - 12,
+      size: 12,
+      font: fonts.bold,
+      color: MUTED_COLOR,
+    });
+    layout.page.drawText(layout.sanitize(value), {
+      x: MARGIN + 120,
+      y: layout.y - 12,
+      size: 12,
+      font: fonts.regular,
+      color: TEXT_COLOR,
+    });
+    layout.y -= 26;
+  }
+}
+
+/**
+ * Draws table of contents entries onto the reserved pages.
+ *
+ * @param layout - Report layout
+ * @param pages - Pages reserved for the table of contents
+ * @param entries - Entry titles with their 1-based page numbers
+ */
+function drawTableOfContents(
+  layout: PdfLayout,
+  pages: PDFPage[],
+  entries: Array<{ title: string; pageNumber: number }>
+): void {
+  const { fonts } = layout;
+  const perPage = getTocEntriesPerPage();
+
+  pages.forEach((page, pageIndex) => {
+    layout.page = page;
+    layout.y = PAGE_SIZE[1] - MARGIN;
+
+    if (pageIndex === 0) {
+      layout.writeLine("Contents", fonts.bold, 20);
+      layout.y -= 40;
+    }
+
+    const pageEntries = entries.slice(
+      pageIndex * perPage,
+      (pageIndex + 1) * perPage
+    );
+
+    for (const entry of pageEntries) {
+      const pageLabel = String(entry.pageNumber);
+      const labelWidth = fonts.regular.widthOfTextAtSize(pageLabel, TOC_ENTRY_SIZE);
+
+      layout.writeLine(entry.title, fonts.regular, TOC_ENTRY_SIZE, layout.width - labelWidth - 24);
+      page.drawText(pageLabel, {
+        x: PAGE_SIZE[0] - MARGIN - labelWidth,
+        y: layout.y - TOC_ENTRY_SIZE,
+        size: TOC_ENTRY_SIZE,
+        font: fonts.regular,
+        color: TEXT_COLOR,
+      });
+      layout.y -= TOC_ENTRY_SPACING;
+    }
+  });
+}
+
+/**
+ * Number of table of contents entries that fit on a page, leaving room for the heading.
+ */
+function getTocEntriesPerPage(): number {
+  return Math.floor((PAGE_SIZE[1] - MARGIN * 2 - 60) / TOC_ENTRY_SPACING);
+}
+
+/**
+ * Draws a single interview section, starting on a new page.
+ */
+function drawInterview(
+  layout: PdfLayout,
+  interview: Interview,
+  index: number,
+  columns: ExportColumn[]
+): void {
+  const { fonts } = layout;
+
+  layout.addPage();
+  layout.writeRuns([{ text: getInterviewHeading(interview, index, columns), bold: true }], 16);
+  layout.y -= 8;
+
+  for (const { field, label } of getSelectedQuestions(columns)) {
+    layout.y -= 10;
+    layout.ensureSpace(60);
+    layout.writeLine(label, fonts.bold, 12.5);
+    layout.y -= 22;
+
+    for (const block of parseMarkdownBlocks(interview[field])) {
+      switch (block.type) {
+        case "heading":
+          layout.writeRuns(block.runs.map((run) => ({ ...run, bold: true })), BODY_SIZE + 1);
+          break;
+        case "bullet":
+          layout.writeRuns(block.runs, BODY_SIZE, LIST_INDENT + LIST_MARKER_WIDTH, "•");
+          break;
+        case "numbered":
+          layout.writeRuns(block.runs, BODY_SIZE, LIST_INDENT + LIST_MARKER_WIDTH, `${block.number}.`);
+          break;
+        default:
+          layout.writeRuns(block.runs, BODY_SIZE);
+      }
+      layout.y -= 4;
+    }
+  }
+}
+
+/**
+ * Draws "Page X of Y" footers on every page except the cover.
+ */
+function drawPageNumbers(layout: PdfLayout): void {
+  const pages = layout.doc.getPages();
+  const size = 9;
+
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+
+    const label = `Page ${index + 1} of ${pages.length}`;
+    const width = layout.fonts.regular.widthOfTextAtSize(label, size);
+
+    page.drawText(label, {
+      x: (PAGE_SIZE[0] - width) / 2,
+      y: MARGIN / 2,
+      size,
+      font: layout.fonts.regular,
+      color: MUTED_COLOR,
+    });
+  });
+}
+
+/**
+ * Renders interviews as a print-ready PDF report.
+ *
+ * @param interviews - Interviews to include
+ * @param options - Report title, customer profile, generation date and exported columns
+ * @returns PDF file contents
+ */
+export async function renderInterviewsPdf(
+  interviews: Interview[],
+  options: PdfReportOptions
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(options.title);
+  doc.setCreationDate(options.generatedAt ?? new Date());
+
+  const fonts: ReportFonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await doc.embedFont(StandardFonts.HelveticaBoldOblique),
+  };
+  const layout = new PdfLayout(doc, fonts);
+
+  drawCoverPage(layout, interviews, options);
+
+  // Reserve table of contents pages up front; entries are filled in once page numbers are known
+  const tocPageCount = Math.max(1, Math.ceil(interviews.length / getTocEntriesPerPage()));
+  const tocPages = Array.from({ length: tocPageCount }, () => layout.addPage());
+
+  const { columns = DEFAULT_EXPORT_COLUMNS } = options;
+  const entries = interviews.map((interview, index) => {
+    // Each interview starts on the page following the current last page
+    const pageNumber = doc.getPageCount() + 1;
+    drawInterview(layout, interview, index, columns);
+    return { title: getInterviewHeading(interview, index, columns), pageNumber };
+  });
+
+  drawTableOfContents(layout, tocPages, entries);
+  drawPageNumbers(layout);
+
+  return doc.save();
+}
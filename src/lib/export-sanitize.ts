@@ -0,0 +1,59 @@
+/**
+ * Spreadsheet formula-injection protection for interview exports.
+ *
+ * Spreadsheet applications treat cells starting with `=`, `+`, `-` or `@` (and a leading
+ * tab or carriage return) as formulas. Generated answers are free text, so cells of the
+ * plain-text formats (CSV and TXT) are prefixed with a single quote, which forces them to
+ * be read as text. XLSX needs no prefix: its cells are typed, and answers are written as
+ * string cells, which are never evaluated.
+ */
+
+import { Interview } from "@/types";
+
+/** Leading characters that make a spreadsheet cell evaluate as a formula */
+const FORMULA_TRIGGERS = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Neutralises a cell value that a spreadsheet would evaluate as a formula.
+ *
+ * @param value - Cell value
+ * @returns The value prefixed with `'` if it starts with a formula trigger, otherwise unchanged
+ *
+ * @example
+ * ```ts
+ * neutralizeFormula('=HYPERLINK("http://evil")') // '\'=HYPERLINK("http://evil")'
+ * neutralizeFormula('Plain answer') // 'Plain answer'
+ * ```
+ */
+export function neutralizeFormula(value: string): string {
+  return FORMULA_TRIGGERS.some((trigger) => value.startsWith(trigger))
+    ? `'${value}`
+    : value;
+}
+
+/**
+ * Neutralises every field of an interview for spreadsheet output.
+ *
+ * @param interview - Interview to sanitise
+ * @returns Copy of the interview with every field passed through `neutralizeFormula`
+ */
+export function neutralizeInterviewFormulas(interview: Interview): Interview {
+  return Object.fromEntries(
+    Object.entries(interview).map(([key, value]) => [
+      key,
+      typeof value === "string" ? neutralizeFormula(value) : value,
+    ])
+  ) as unknown as Interview;
+}
+
+/**
+ * Reverses `neutralizeFormula` for a cell read back from a CSV or TXT export.
+ *
+ * @param value - Cell value
+ * @returns The value without the protective `'` prefix, if one was added on export
+ */
+export function restoreFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_TRIGGERS.some((trigger) => value.startsWith(trigger, 1))
+    ? value.slice(1)
+    : value;
+}
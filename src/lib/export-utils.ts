@@ -1,8 +1,11 @@
 /**
- * Utility functions for handling interview data exports.
+ * Utility functions for handling interview data exports and imports.
  * Provides reusable functions for downloading files and handling export logic.
  */
 
+import { ExportColumn, Interview, InterviewProfile } from '@/types';
+import { DEFAULT_EXPORT_COLUMNS } from '@/lib/export-columns';
+
 /**
  * Extracts filename from Content-Disposition header.
  * 
@@ -77,22 +80,47 @@ export function handleFileExport(
   }
 }
 
+/**
+ * Adds the selected columns to an export path.
+ * The path is returned unchanged when every column is selected in default order.
+ * 
+ * @param path - API endpoint path, optionally with a query string
+ * @param columns - Columns to export, in export order
+ * @returns Export path including the `columns` parameter when needed
+ */
+export function buildExportPath(path: string, columns: ExportColumn[]): string {
+  const isDefault = 
+    columns.length === DEFAULT_EXPORT_COLUMNS.length &&
+    columns.every((column, index) => column === DEFAULT_EXPORT_COLUMNS[index]);
+  
+  if (isDefault) {
+    return path;
+  }
+  
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}columns=${encodeURIComponent(columns.join(','))}`;
+}
+
 /**
  * Makes an export API request and handles the response.
  * 
  * @param path - API endpoint path
  * @param interviews - Interview data to export
+ * @param profile - Optional customer profile used by report formats (e.g. PDF cover page)
+ * @param generatedAt - When the interviews' job was started (ISO 8601), if known
  * @returns Promise resolving to response blob and filename
  * @throws Error if the export request fails
  */
 export async function makeExportRequest(
   path: string,
-  interviews: unknown[]
+  interviews: unknown[],
+  profile?: Partial<InterviewProfile>,
+  generatedAt?: string | null
 ): Promise<{ blob: Blob; filename: string }> {
   const response = await fetch(path, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ interviews }),
+    body: JSON.stringify({ interviews, profile, generatedAt }),
   });
 
   if (!response.ok) {
@@ -104,4 +132,38 @@ export async function makeExportRequest(
   const filename = extractFilenameFromHeader(contentDisposition);
 
   return { blob, filename };
-}
\ No newline at end of file
+}
+
+/**
+ * Uploads a previously exported interview file to the import API.
+ * 
+ * @param path - Import API endpoint path
+ * @param file - CSV, XLSX or JSON export chosen by the user
+ * @returns Promise resolving to the imported interviews
+ * @throws Error with the server message, including the first invalid row, if the import fails
+ */
+export async function makeImportRequest(
+  path: string,
+  file: File
+): Promise<Interview[]> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(path, {
+    method: 'POST',
+    body: formData,
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const [firstError] = result.errors ?? [];
+    const detail = firstError ? ` (row ${firstError.row}: ${firstError.message})` : '';
+
+    throw new Error(
+      `${result.error ?? `Import failed with status: ${response.status}`}${detail}`
+    );
+  }
+
+  return result.interviews;
+}
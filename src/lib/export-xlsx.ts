@@ -0,0 +1,181 @@
+/**
+ * Excel (XLSX) rendering for interview exports.
+ * Builds a formatted workbook: a Summary sheet, an Interviews sheet with one row per
+ * interview, and one sheet per question for side-by-side reading of every answer.
+ * Answers are written as string cells with their text unchanged, so a leading `=`
+ * or `+` is shown as typed rather than evaluated as a formula.
+ */
+
+import ExcelJS from "exceljs";
+
+import { ExportColumn, Interview, InterviewProfile } from "@/types";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  getSelectedColumns,
+  getSelectedQuestions,
+} from "@/lib/export-columns";
+
+/**
+ * Options for rendering an interview workbook.
+ */
+export interface XlsxWorkbookOptions {
+  /** Customer profile the interviews were generated for */
+  profile: InterviewProfile;
+  /** Generation timestamp shown on the Summary sheet */
+  generatedAt?: Date;
+  /** Exported columns; defaults to every interview field */
+  columns?: ExportColumn[];
+}
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFF3F4F6" },
+};
+
+const INDEX_COLUMN = { header: "#", key: "index", width: 6 };
+const ANSWER_WIDTH = 60;
+
+/** Column widths for the short descriptive fields; answers use ANSWER_WIDTH */
+const COLUMN_WIDTHS: Partial<Record<ExportColumn, number>> = {
+  role: 24,
+  industry: 28,
+};
+
+/**
+ * Builds sheet column definitions for the selected interview fields.
+ *
+ * @param columns - Selected columns, in export order
+ * @returns Column definitions with human-readable headers
+ */
+function toSheetColumns(columns: ExportColumn[]): Array<Partial<ExcelJS.Column>> {
+  return getSelectedColumns(columns).map(({ field, label }) => ({
+    header: label,
+    key: field,
+    width: COLUMN_WIDTHS[field] ?? ANSWER_WIDTH,
+  }));
+}
+
+/**
+ * Converts a question label into a valid sheet name.
+ * Excel forbids `: \ / ? * [ ]` in sheet names and limits them to 31 characters.
+ *
+ * @param label - Question label (e.g., "Q1: Day in the life")
+ * @returns Sheet name (e.g., "Q1 - Day in the life")
+ */
+function toSheetName(label: string): string {
+  return label.replace(":", " -").replace(/[\\/?*[\]:]/g, "").slice(0, 31);
+}
+
+/**
+ * Adds a sheet with a bold, frozen, filterable header row and wrapped body cells.
+ *
+ * @param workbook - Workbook to add the sheet to
+ * @param name - Sheet name
+ * @param columns - Column definitions
+ * @param rows - Row values keyed by column key
+ */
+function addTableSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  columns: Array<Partial<ExcelJS.Column>>,
+  rows: Array<Record<string, string | number>>
+): void {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  sheet.columns = columns;
+  sheet.addRows(rows);
+
+  sheet.eachRow((row) => {
+    row.alignment = { vertical: "top", wrapText: true };
+  });
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = HEADER_FILL;
+
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: columns.length },
+  };
+}
+
+/**
+ * Adds the Summary sheet describing the customer profile and export contents.
+ */
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  interviews: Interview[],
+  { profile, generatedAt = new Date(), columns = DEFAULT_EXPORT_COLUMNS }: XlsxWorkbookOptions
+): void {
+  const sheet = workbook.addWorksheet("Summary");
+
+  sheet.columns = [
+    { key: "label", width: 20 },
+    { key: "value", width: 50 },
+  ];
+
+  sheet.addRow(["Interview Summary"]).font = { bold: true, size: 14 };
+  sheet.addRow([]);
+  sheet.addRows([
+    ["Role", profile.role || "Not specified"],
+    ["Industry", profile.industry || "Not specified"],
+    ["Experience", profile.range ? `${profile.range} years` : "Not specified"],
+    ["Company size", profile.employee_range ? `${profile.employee_range} employees` : "Not specified"],
+    ...(profile.country ? [["Country", profile.country]] : []),
+    ["Interviews", interviews.length],
+    ["Questions", getSelectedQuestions(columns).length],
+    ["Generated", generatedAt.toISOString().slice(0, 10)],
+  ]);
+
+  sheet.getColumn("label").font = { bold: true };
+  sheet.getColumn("value").alignment = { horizontal: "left" };
+}
+
+/**
+ * Renders interviews as a formatted Excel workbook.
+ *
+ * @param interviews - Interviews to include
+ * @param options - Customer profile, generation date and exported columns
+ * @returns XLSX file contents
+ */
+export async function renderInterviewsXlsx(
+  interviews: Interview[],
+  options: XlsxWorkbookOptions
+): Promise<Uint8Array<ArrayBuffer>> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "AI Interview Generator";
+  workbook.created = options.generatedAt ?? new Date();
+
+  addSummarySheet(workbook, interviews, options);
+
+  const { columns = DEFAULT_EXPORT_COLUMNS } = options;
+  const rows = interviews.map((interview, index) => ({ index: index + 1, ...interview }));
+
+  addTableSheet(workbook, "Interviews", [INDEX_COLUMN, ...toSheetColumns(columns)], rows);
+
+  // Per-question sheets keep the selected descriptive columns next to the answer
+  const descriptiveColumns = columns.filter(
+    (column) => column === "role" || column === "industry"
+  );
+
+  for (const { field } of getSelectedQuestions(columns)) {
+    const [answerColumn] = toSheetColumns([field]);
+
+    addTableSheet(
+      workbook,
+      toSheetName(String(answerColumn.header)),
+      [
+        INDEX_COLUMN,
+        ...toSheetColumns(descriptiveColumns),
+        { ...answerColumn, width: ANSWER_WIDTH * 1.5 },
+      ],
+      rows
+    );
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer);
+}
@@ -0,0 +1,184 @@
+/**
+ * ZIP bundle rendering for interview exports.
+ * Packages each interview as its own Markdown and JSON file, together with an
+ * `index.csv` manifest and the combined XLSX workbook, in a single streamed archive.
+ */
+
+import * as XLSX from "xlsx";
+import { strToU8, Zip, ZipDeflate } from "fflate";
+
+import { ExportColumn, Interview, InterviewProfile } from "@/types";
+import { slugify } from "@/lib/utils";
+import { renderInterviewsXlsx } from "@/lib/export-xlsx";
+import { getSelectedColumns, projectInterview } from "@/lib/export-columns";
+import { neutralizeInterviewFormulas } from "@/lib/export-sanitize";
+import { renderInterviewMarkdown } from "@/lib/export-markdown";
+
+/**
+ * Options for building an interview ZIP bundle.
+ */
+export interface ZipBundleOptions {
+  /** Display name used for the combined workbook */
+  tableName: string;
+  /** Customer profile shown on the workbook's Summary sheet */
+  profile: InterviewProfile;
+  /** Generation timestamp shown on the workbook's Summary sheet */
+  generatedAt?: Date;
+  /** Exported columns */
+  columns: ExportColumn[];
+  /** Whether to neutralise spreadsheet formulas in the CSV manifest */
+  neutralizeFormulas: boolean;
+}
+
+/**
+ * Builds the base filename for an interview from its position, role and industry.
+ *
+ * @param interview - Interview to name
+ * @param index - Zero-based position of the interview in the export
+ * @returns Filename without extension (e.g., "01-software-engineer-technology")
+ */
+export function getInterviewFileName(interview: Interview, index: number): string {
+  const parts = [
+    String(index + 1).padStart(2, "0"),
+    slugify(interview.role),
+    slugify(interview.industry),
+  ];
+
+  return parts.filter(Boolean).join("-");
+}
+
+/**
+ * Builds the CSV manifest listing every interview's selected columns and its files.
+ *
+ * @param interviews - Interviews in the bundle
+ * @param fileNames - Base filenames, in the same order as the interviews
+ * @param columns - Exported columns
+ * @returns CSV manifest contents
+ */
+function renderManifest(
+  interviews: Interview[],
+  fileNames: string[],
+  columns: ExportColumn[]
+): string {
+  const fields = getSelectedColumns(columns).map(({ field }) => field);
+  const rows = interviews.map((interview, index) => ({
+    index: index + 1,
+    ...Object.fromEntries(fields.map((field) => [field, interview[field]])),
+    markdown: `interviews/${fileNames[index]}.md`,
+    json: `interviews/${fileNames[index]}.json`,
+  }));
+
+  return XLSX.utils.sheet_to_csv(
+    XLSX.utils.json_to_sheet(rows, { header: ["index", ...fields, "markdown", "json"] }),
+    { forceQuotes: true }
+  );
+}
+
+/**
+ * File to be added to a ZIP archive.
+ */
+interface ZipEntry {
+  /** Path of the file inside the archive */
+  name: string;
+  /** File contents */
+  data: Uint8Array;
+}
+
+/**
+ * Renders every file of the bundle.
+ *
+ * @param interviews - Interviews to bundle
+ * @param options - Workbook name, customer profile, columns and formula protection
+ * @returns Promise resolving to the archive files, in archive order
+ */
+async function renderZipEntries(
+  interviews: Interview[],
+  { tableName, profile, generatedAt, columns, neutralizeFormulas }: ZipBundleOptions
+): Promise<ZipEntry[]> {
+  const fileNames = interviews.map(getInterviewFileName);
+  const manifestData = neutralizeFormulas
+    ? interviews.map(neutralizeInterviewFormulas)
+    : interviews;
+
+  const entries: ZipEntry[] = [
+    { name: "index.csv", data: strToU8(renderManifest(manifestData, fileNames, columns)) },
+    {
+      name: `${tableName}.xlsx`,
+      data: await renderInterviewsXlsx(interviews, { profile, generatedAt, columns }),
+    },
+  ];
+
+  interviews.forEach((interview, index) => {
+    const name = `interviews/${fileNames[index]}`;
+    const markdown = renderInterviewMarkdown(interview, index, columns);
+    const json = JSON.stringify(projectInterview(interview, columns), null, 2);
+
+    entries.push(
+      { name: `${name}.md`, data: strToU8(`${markdown}\n`) },
+      { name: `${name}.json`, data: strToU8(json) }
+    );
+  });
+
+  return entries;
+}
+
+/**
+ * Creates a ZIP archive of the interviews as a byte stream.
+ *
+ * Every file is rendered before the stream is returned, so rendering errors reject
+ * the promise and can still be reported with an error status. The stream then
+ * compresses one file each time the consumer pulls, so the archive is never held
+ * in memory as a whole.
+ *
+ * Archive layout:
+ * - `index.csv`: manifest of all interviews
+ * - `<tableName>.xlsx`: combined workbook
+ * - `interviews/<name>.md` and `interviews/<name>.json`: one pair per interview
+ *
+ * @param interviews - Interviews to bundle
+ * @param options - Workbook name, customer profile, columns and formula protection
+ * @returns Promise resolving to a readable stream of the ZIP file contents
+ */
+export async function createInterviewsZipStream(
+  interviews: Interview[],
+  options: ZipBundleOptions
+): Promise<ReadableStream<Uint8Array>> {
+  const entries = await renderZipEntries(interviews, options);
+  let zip: Zip;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+
+        controller.enqueue(chunk);
+
+        if (final) {
+          controller.close();
+        }
+      });
+    },
+
+    pull() {
+      const entry = entries.shift();
+
+      if (!entry) {
+        zip.end();
+        return;
+      }
+
+      // Deflating is synchronous, so the file's chunks are queued before returning
+      const file = new ZipDeflate(entry.name, { level: 6 });
+      zip.add(file);
+      file.push(entry.data, true);
+    },
+
+    cancel() {
+      zip.terminate();
+      entries.length = 0;
+    },
+  });
+}
@@ -0,0 +1,285 @@
+/**
+ * Server-side fulfilment of paid checkout sessions.
+ *
+ * A paid session is fulfilled by enqueuing interview generation for it. Both the
+ * Stripe webhook and the buyer's redirect back to the app fulfil sessions, so the
+ * outcome is recorded in the session metadata (`processed` and `job_id`) and in the
+ * order book, keyed by session ID, and every later attempt returns the recorded job
+ * instead of enqueuing another one.
+ *
+ * Credit pack sessions (`type: "credits"`) are fulfilled by adding the credits to
+ * the buyer's ledger instead; the ledger ignores repeated purchases of a session.
+ */
+
+import {
+  CheckoutSession,
+  CreditBalance,
+  FulfillCheckoutResponse,
+  InterviewProfile,
+  JobResponse,
+  JobStatus,
+  StartInterviewsRequest,
+} from "@/types";
+import { findOrder, recordOrder } from "@/lib/orders";
+import { isPricingTierId } from "@/lib/pricing";
+import { addCreditPurchase } from "@/lib/credits";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { API_ENDPOINTS, CHECKOUT_TYPES } from "@/constants/app";
+
+/** Values of the `processed` checkout session metadata flag */
+export const CHECKOUT_PROCESSED = {
+  NO: "no",
+  YES: "yes",
+} as const;
+
+/**
+ * Fulfilments currently in progress, keyed by checkout session ID.
+ * Lets a webhook delivery and a redirect arriving together share one enqueue.
+ */
+const pendingFulfillments = new Map<string, Promise<JobResponse>>();
+
+/**
+ * Enqueues interview generation for a paid checkout session or credit order.
+ * Uses the generation service at `NEXT_PUBLIC_API_URL`, or the in-repo service
+ * when it is not set.
+ *
+ * @param request - Session or order ID, plus the profile and count for credit orders
+ * @returns Promise resolving to job response with job ID
+ * @throws Error if the generation service rejects the request
+ */
+export async function enqueueInterviews(
+  request: StartInterviewsRequest
+): Promise<JobResponse> {
+  if (!process.env.NEXT_PUBLIC_API_URL) {
+    // Loaded on demand, since the in-repo service reads checkout sessions through this module
+    const { startGenerationJob } = await import("@/lib/generation-worker");
+    return startGenerationJob(request);
+  }
+
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL}${API_ENDPOINTS.START_INTERVIEWS}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to start interview generation");
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches the status of a generation job from the generation service at
+ * `NEXT_PUBLIC_API_URL`, or from the in-repo service when it is not set.
+ *
+ * @param jobId - Generation job ID
+ * @returns Promise resolving to the job status
+ * @throws Error if the generation service rejects the request
+ */
+export async function fetchJobStatus(jobId: string): Promise<JobStatus> {
+  if (!process.env.NEXT_PUBLIC_API_URL) {
+    const { getGenerationJobStatus } = await import("@/lib/generation-worker");
+    return getGenerationJobStatus(jobId);
+  }
+
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL}${API_ENDPOINTS.INTERVIEW_STATUS}/${jobId}`
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to fetch job status");
+  }
+
+  return response.json();
+}
+
+/**
+ * Reads the customer profile recorded in a checkout session's metadata.
+ *
+ * @param session - Checkout session for a generation run
+ * @returns Customer profile, or null if the metadata has none
+ */
+export function getSessionProfile({ metadata }: CheckoutSession): InterviewProfile | null {
+  if (!metadata.role) {
+    return null;
+  }
+
+  return {
+    role: metadata.role,
+    industry: metadata.industry,
+    range: metadata.range,
+    employee_range: metadata.employee_range,
+    country: metadata.country,
+  };
+}
+
+/**
+ * Records a session's job in its metadata, so later fulfilments reuse the job.
+ *
+ * @param sessionId - Checkout session ID
+ * @param jobId - Job generating the session's interviews
+ */
+async function markSessionProcessed(sessionId: string, jobId: string): Promise<void> {
+  // Metadata updates are merged, so the ICP fields written at checkout are kept
+  await getPaymentProvider().updateCheckoutSessionMetadata(sessionId, {
+    processed: CHECKOUT_PROCESSED.YES,
+    job_id: jobId,
+  });
+}
+
+/**
+ * Enqueues generation for a session, records its order and marks it as processed.
+ *
+ * The order is recorded straight after enqueuing, before anything else can fail,
+ * since it is what keeps retries from enqueuing again. A retry after the enqueue
+ * itself, before the order was saved, is covered by the generation service, which
+ * returns the existing job when a session is started twice.
+ *
+ * @param session - Paid, unprocessed checkout session
+ * @returns Promise resolving to job response with job ID
+ */
+async function processCheckoutSession(session: CheckoutSession): Promise<JobResponse> {
+  const job = await enqueueInterviews({ sessionId: session.id });
+
+  const { metadata } = session;
+  await recordOrder({
+    id: session.id,
+    type: "checkout",
+    accountId: metadata.account_id || null,
+    jobId: job.jobId,
+    interviews: Number(metadata.interviews) || 0,
+    profile: getSessionProfile(session),
+    tier: isPricingTierId(metadata.tier) ? metadata.tier : null,
+    amount: session.amountTotal,
+    currency: session.currency,
+    promoCode: metadata.promo_code || null,
+  });
+
+  await markSessionProcessed(session.id, job.jobId);
+
+  return job;
+}
+
+/**
+ * Enqueues generation for a session whose metadata is not marked as processed,
+ * unless an order was already recorded for it. The metadata may be stale, e.g.
+ * when it comes from an event created before the session was processed, or when
+ * marking the session failed after its order was recorded, in which case it is
+ * marked again.
+ *
+ * @param session - Paid checkout session
+ * @returns Promise resolving to the job generating the session's interviews
+ */
+async function fulfillUnprocessedSession(session: CheckoutSession): Promise<JobResponse> {
+  const order = await findOrder(session.id);
+
+  if (order) {
+    await markSessionProcessed(session.id, order.jobId);
+    return { jobId: order.jobId };
+  }
+
+  return processCheckoutSession(session);
+}
+
+/**
+ * Fulfils a checkout session, enqueuing interview generation exactly once.
+ *
+ * @param session - Checkout session, e.g. from a `checkout.session.completed` event
+ * @returns Promise resolving to the job generating the session's interviews
+ * @throws Error if the session is unpaid or was processed without a recorded job
+ */
+export async function fulfillCheckoutSession(
+  session: CheckoutSession
+): Promise<JobResponse> {
+  if (session.paymentStatus !== "paid") {
+    throw new Error("Checkout session has not been paid");
+  }
+
+  if (isCreditPurchase(session)) {
+    throw new Error("Checkout session is a credit pack purchase");
+  }
+
+  if (session.metadata.processed === CHECKOUT_PROCESSED.YES) {
+    if (!session.metadata.job_id) {
+      throw new Error("Checkout session has already been processed");
+    }
+
+    return { jobId: session.metadata.job_id };
+  }
+
+  const pending = pendingFulfillments.get(session.id);
+  if (pending) {
+    return pending;
+  }
+
+  const fulfillment = fulfillUnprocessedSession(session).finally(() => {
+    pendingFulfillments.delete(session.id);
+  });
+  pendingFulfillments.set(session.id, fulfillment);
+
+  return fulfillment;
+}
+
+/**
+ * Fulfils a checkout session by ID, as used when the buyer is redirected back.
+ * The session is retrieved from the payment provider so its latest metadata is used.
+ *
+ * @param sessionId - Checkout session ID
+ * @returns Promise resolving to the job generating the session's interviews, and
+ *   the customer profile they are generated for
+ */
+export async function fulfillCheckoutSessionById(
+  sessionId: string
+): Promise<FulfillCheckoutResponse> {
+  const session = await getPaymentProvider().retrieveCheckoutSession(sessionId);
+  const job = await fulfillCheckoutSession(session);
+
+  return { ...job, profile: getSessionProfile(session) };
+}
+
+/**
+ * Checks whether a checkout session bought a credit pack.
+ *
+ * @param session - Checkout session
+ * @returns True for credit pack purchases
+ */
+export function isCreditPurchase(session: CheckoutSession): boolean {
+  return session.metadata.type === CHECKOUT_TYPES.CREDITS;
+}
+
+/**
+ * Fulfils a credit pack session by adding its credits to the buyer's ledger.
+ *
+ * @param session - Paid credit pack checkout session
+ * @returns Promise resolving to the buyer's balance after the purchase
+ * @throws Error if the session is unpaid or its metadata is incomplete
+ */
+export async function fulfillCreditPurchase(
+  session: CheckoutSession
+): Promise<CreditBalance> {
+  if (session.paymentStatus !== "paid") {
+    throw new Error("Checkout session has not been paid");
+  }
+
+  const { account_id: accountId, credits, processed } = session.metadata;
+
+  if (!isCreditPurchase(session) || !accountId || !Number(credits)) {
+    throw new Error("Checkout session is not a credit pack purchase");
+  }
+
+  const balance = await addCreditPurchase(accountId, Number(credits), session.id);
+
+  if (processed !== CHECKOUT_PROCESSED.YES) {
+    await getPaymentProvider().updateCheckoutSessionMetadata(session.id, {
+      processed: CHECKOUT_PROCESSED.YES,
+    });
+  }
+
+  return balance;
+}
@@ -0,0 +1,156 @@
+/**
+ * Job store of the in-repo interview generation service.
+ *
+ * Jobs are persisted with the interviews generated so far, so a job interrupted by
+ * a server restart can carry on where it stopped, and clients only ever see them
+ * through the `JobStatus` shape of the generation API.
+ */
+
+import { randomUUID } from "crypto";
+
+import { GenerationJob, JobEvent, JobProgress, JobStatus } from "@/types";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * Persisted jobs document.
+ */
+interface JobBook {
+  /** All jobs, in the order they were started */
+  jobs: GenerationJob[];
+}
+
+const jobBook = createJsonStore<JobBook>("jobs.json", () => ({ jobs: [] }));
+
+/**
+ * Error thrown when a job does not exist.
+ */
+export class JobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`Job '${jobId}' not found`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+/**
+ * Creates a pending job. Starting a job for the same session twice returns the
+ * existing job, so retried requests never generate a batch twice.
+ *
+ * @param request - Session, profile, interview count and tier of the job
+ * @returns Created or existing job
+ */
+export async function createJob(
+  request: Pick<GenerationJob, "sessionId" | "profile" | "interviews" | "tier">
+): Promise<GenerationJob> {
+  return jobBook.update((data) => {
+    const existing = data.jobs.find(({ sessionId }) => sessionId === request.sessionId);
+
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      ...request,
+      id: `job_${randomUUID().replace(/-/g, "")}`,
+      status: "pending",
+      processed: 0,
+      results: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.jobs.push(job);
+
+    return job;
+  });
+}
+
+/**
+ * Finds a job by ID.
+ *
+ * @param jobId - Job ID
+ * @returns Job
+ * @throws JobNotFoundError if the job does not exist
+ */
+export async function findJob(jobId: string): Promise<GenerationJob> {
+  const { jobs } = await jobBook.read();
+  const job = jobs.find(({ id }) => id === jobId);
+
+  if (!job) {
+    throw new JobNotFoundError(jobId);
+  }
+
+  return job;
+}
+
+/**
+ * Applies a change to a job and saves it.
+ *
+ * @param jobId - Job ID
+ * @param change - Callback mutating the job in place
+ * @returns Updated job
+ * @throws JobNotFoundError if the job does not exist
+ */
+export async function updateJob(
+  jobId: string,
+  change: (job: GenerationJob) => void
+): Promise<GenerationJob> {
+  return jobBook.update((data) => {
+    const job = data.jobs.find(({ id }) => id === jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    change(job);
+    job.updatedAt = new Date().toISOString();
+
+    return job;
+  });
+}
+
+/**
+ * Describes a job in the status shape of the generation API.
+ *
+ * @param job - Stored job
+ * @returns Progress and the interviews so far while pending, the interviews once
+ *   completed, or the error once failed
+ */
+export function toJobStatus(job: GenerationJob): JobStatus {
+  switch (job.status) {
+    case "completed":
+      return { status: "completed", data: job.results };
+    case "failed":
+      return { status: "failed", error: job.error };
+    default:
+      return {
+        status: "pending",
+        progress: toJobProgress(job).progress,
+        data: job.results,
+        remaining: job.interviews - job.processed,
+      };
+  }
+}
+
+/**
+ * Describes how far a job has got.
+ *
+ * @param job - Stored job
+ * @returns Percentage done, with the interviews attempted and the total
+ */
+export function toJobProgress(job: GenerationJob): JobProgress {
+  return {
+    progress: Math.round((job.processed / job.interviews) * 100),
+    processed: job.processed,
+    interviews: job.interviews,
+  };
+}
+
+/**
+ * Describes a job's current state as an event of its event stream.
+ *
+ * @param job - Stored job
+ * @returns Progress event while pending, otherwise the final event, with the job status
+ */
+export function toJobEvent(job: GenerationJob): JobEvent {
+  return { type: job.status === "pending" ? "progress" : job.status, data: toJobStatus(job) };
+}
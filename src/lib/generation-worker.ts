@@ -0,0 +1,273 @@
+/**
+ * Worker of the in-repo interview generation service.
+ *
+ * Jobs run in the background of the server process, one interview at a time, and
+ * save each interview as it is generated so progress can be reported. An interview
+ * that still fails after `GENERATION_MAX_ATTEMPTS` attempts is skipped: the job
+ * completes with the interviews that succeeded, and fails only if none did.
+ * Every change to a job is also published to its subscribers (see `job-events.ts`),
+ * and once a job finishes, its order is refunded for any undelivered interviews.
+ */
+
+import {
+  GenerationJob,
+  Interview,
+  JobResponse,
+  JobStatus,
+  StartInterviewsRequest,
+} from "@/types";
+import { getCreditsSpent } from "@/lib/credits";
+import { validateInterviewRequest } from "@/lib/validation";
+import { generateInterview } from "@/lib/interview-generator";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { getSessionProfile, isCreditPurchase } from "@/lib/fulfillment";
+import { settleFinishedJob } from "@/lib/refunds";
+import {
+  createJob,
+  findJob,
+  toJobEvent,
+  toJobProgress,
+  toJobStatus,
+  updateJob,
+} from "@/lib/generation-jobs";
+import { JobEventListener, publishJobEvent, subscribeToJob } from "@/lib/job-events";
+import { DEFAULT_PRICING_TIER, GENERATION_MAX_ATTEMPTS } from "@/constants/app";
+
+/**
+ * Jobs currently being worked on, keyed by job ID.
+ * Kept on `globalThis` so route bundles that load this module separately share them.
+ */
+const globalWorkers = globalThis as typeof globalThis & {
+  generationWorkers?: Map<string, Promise<void>>;
+};
+const workers = (globalWorkers.generationWorkers ??= new Map());
+
+/**
+ * Resolves what a start request asks to generate. Credit orders carry their profile
+ * and count, which must have been paid for with credits; checkout sessions are
+ * looked up with the payment provider.
+ *
+ * @param request - Start request
+ * @returns Session, profile, interview count and tier of the job
+ * @throws Error if the request is incomplete, or the session or order is unpaid or invalid
+ */
+async function resolveJobRequest(
+  request: Partial<StartInterviewsRequest>
+): Promise<Pick<GenerationJob, "sessionId" | "profile" | "interviews" | "tier">> {
+  const { sessionId } = request;
+
+  if (!sessionId || typeof sessionId !== "string") {
+    throw new Error("Session ID is required");
+  }
+
+  if (request.profile) {
+    const values = validateInterviewRequest({
+      ...request.profile,
+      interviews: request.interviews,
+      // Credits only pay for standard interviews
+      tier: DEFAULT_PRICING_TIER,
+    });
+
+    if ((await getCreditsSpent(sessionId)) < values.interviews) {
+      throw new Error(`Credit order '${sessionId}' has not been paid for`);
+    }
+
+    return {
+      sessionId,
+      profile: {
+        role: values.role,
+        industry: values.industry,
+        range: values.experienceRange,
+        employee_range: values.employeeRange,
+        country: request.profile.country,
+      },
+      interviews: values.interviews,
+      tier: values.tier,
+    };
+  }
+
+  const session = await getPaymentProvider().retrieveCheckoutSession(sessionId);
+
+  if (session.paymentStatus !== "paid") {
+    throw new Error("Checkout session has not been paid");
+  }
+
+  const profile = getSessionProfile(session);
+
+  if (isCreditPurchase(session) || !profile) {
+    throw new Error("Checkout session is not an interview purchase");
+  }
+
+  const values = validateInterviewRequest({
+    ...profile,
+    interviews: Number(session.metadata.interviews),
+    tier: session.metadata.tier as GenerationJob["tier"] | undefined,
+  });
+
+  return { sessionId, profile, interviews: values.interviews, tier: values.tier };
+}
+
+/**
+ * Generates one interview, retrying failed attempts.
+ *
+ * @param job - Job being worked on
+ * @param index - Position of the interview in the batch
+ * @returns Generated interview, or the error of the last attempt
+ */
+async function generateWithRetries(
+  job: GenerationJob,
+  index: number
+): Promise<Interview | Error> {
+  let lastError = new Error("Interview could not be generated");
+
+  for (let attempt = 1; attempt <= GENERATION_MAX_ATTEMPTS; attempt++) {
+    try {
+      return await generateInterview(job.profile, job.tier, index, job.sessionId);
+    } catch (error) {
+      console.error(`Job ${job.id}: attempt ${attempt} at interview ${index + 1} failed:`, error);
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  return lastError;
+}
+
+/**
+ * Works through a job's remaining interviews, then completes or fails it.
+ *
+ * @param jobId - Job ID
+ */
+async function processJob(jobId: string): Promise<void> {
+  let job = await findJob(jobId);
+  let lastError: Error | null = null;
+
+  while (job.processed < job.interviews) {
+    const result = await generateWithRetries(job, job.processed);
+
+    if (result instanceof Error) {
+      lastError = result;
+    }
+
+    const index = job.processed;
+    job = await updateJob(jobId, (stored) => {
+      if (!(result instanceof Error)) {
+        stored.results.push(result);
+      }
+      stored.processed += 1;
+    });
+    publishJobEvent(jobId, {
+      type: "interview",
+      data: result instanceof Error
+        ? { ...toJobProgress(job), index, skipped: true }
+        : { ...toJobProgress(job), index, skipped: false, interview: result },
+    });
+  }
+
+  job = await updateJob(jobId, (stored) => {
+    if (stored.results.length > 0) {
+      stored.status = "completed";
+    } else {
+      stored.status = "failed";
+      stored.error = lastError?.message ?? "No interviews could be generated";
+    }
+  });
+  publishJobEvent(jobId, toJobEvent(job));
+}
+
+/**
+ * Runs a pending job in the background, unless it is already running.
+ * Unexpected errors fail the job rather than leaving it pending. Either way, the
+ * job's order is settled once it finishes.
+ *
+ * @param jobId - Job ID
+ */
+function runJob(jobId: string): void {
+  if (workers.has(jobId)) {
+    return;
+  }
+
+  const worker = processJob(jobId)
+    .catch(async (error) => {
+      console.error(`Job ${jobId} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      await updateJob(jobId, (stored) => {
+        stored.status = "failed";
+        stored.error = message;
+      }).catch(() => undefined);
+      publishJobEvent(jobId, { type: "failed", data: { status: "failed", error: message } });
+    })
+    .then(() => settleFinishedJob(jobId))
+    .finally(() => {
+      workers.delete(jobId);
+    });
+  workers.set(jobId, worker);
+}
+
+/**
+ * Starts generating interviews for a paid checkout session or credit order.
+ * Starting the same session twice returns the existing job.
+ *
+ * @param request - Start request
+ * @returns Promise resolving to the job ID
+ * @throws Error if the request is incomplete, or the session or order is unpaid or invalid
+ */
+export async function startGenerationJob(
+  request: Partial<StartInterviewsRequest>
+): Promise<JobResponse> {
+  const job = await createJob(await resolveJobRequest(request));
+
+  if (job.status === "pending") {
+    runJob(job.id);
+  }
+
+  return { jobId: job.id };
+}
+
+/**
+ * Returns the status of a job. A pending job that is not being worked on, e.g.
+ * after a server restart, is resumed from its last generated interview.
+ *
+ * @param jobId - Job ID
+ * @returns Promise resolving to the job status
+ * @throws JobNotFoundError if the job does not exist
+ */
+export async function getGenerationJobStatus(jobId: string): Promise<JobStatus> {
+  const job = await findJob(jobId);
+
+  if (job.status === "pending") {
+    runJob(job.id);
+  }
+
+  return toJobStatus(job);
+}
+
+/**
+ * Subscribes to the events of a job, starting with its current state. A pending
+ * job that is not being worked on is resumed, as when its status is requested.
+ *
+ * @param jobId - Job ID
+ * @param listener - Callback receiving each event
+ * @returns Promise resolving to a function that unsubscribes the listener
+ * @throws JobNotFoundError if the job does not exist
+ */
+export async function watchGenerationJob(
+  jobId: string,
+  listener: JobEventListener
+): Promise<() => void> {
+  // Subscribe before reading the job, so no event is missed in between
+  const unsubscribe = subscribeToJob(jobId, listener);
+
+  try {
+    const job = await findJob(jobId);
+    listener(toJobEvent(job));
+
+    if (job.status === "pending") {
+      runJob(job.id);
+    }
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+
+  return unsubscribe;
+}
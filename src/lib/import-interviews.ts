@@ -0,0 +1,282 @@
+/**
+ * Parsing and validation for importing previously exported interviews.
+ * Accepts the CSV, XLSX and JSON files produced by the tables export route and maps
+ * them back to `Interview` records, reporting every invalid row. Exports limited to a
+ * subset of columns are accepted, and the fields they leave out are imported empty.
+ */
+
+import * as XLSX from "xlsx";
+
+import { ExportColumn, Interview } from "@/types";
+import { restoreFormula } from "@/lib/export-sanitize";
+import { DEFAULT_EXPORT_COLUMNS } from "@/lib/export-columns";
+import { INTERVIEW_COLUMNS, MAX_IMPORT_ROWS } from "@/constants/app";
+
+/** File formats that can be imported */
+export const IMPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/**
+ * Validation problem found in a single imported row.
+ */
+export interface ImportRowError {
+  /** Row number as shown in the source file (spreadsheet row, or 1-based array position for JSON) */
+  row: number;
+  /** Interview field the problem relates to, if any */
+  field?: ExportColumn;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Error raised when one or more imported rows fail validation.
+ */
+export class ImportValidationError extends Error {
+  constructor(readonly rows: ImportRowError[]) {
+    super(
+      `${rows.length} problem${rows.length === 1 ? "" : "s"} found in the imported file`
+    );
+    this.name = "ImportValidationError";
+  }
+}
+
+/** Spreadsheet columns that are written by exports but carry no interview data */
+const IGNORED_HEADERS = ["#", "index"];
+
+/**
+ * Detects the import format from a file name and media type.
+ *
+ * @param name - Uploaded file name
+ * @param type - Uploaded file media type
+ * @returns Detected format
+ * @throws Error if the file is not CSV, XLSX or JSON
+ */
+export function detectImportFormat(name: string, type: string): ImportFormat {
+  const extension = name.split(".").pop()?.toLowerCase();
+
+  if (IMPORT_FORMATS.includes(extension as ImportFormat)) {
+    return extension as ImportFormat;
+  }
+
+  if (type === "text/csv") return "csv";
+  if (type === "application/json") return "json";
+  if (type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") {
+    return "xlsx";
+  }
+
+  throw new Error(
+    `Unsupported import file '${name}'. Supported formats: ${IMPORT_FORMATS.join(", ")}`
+  );
+}
+
+/**
+ * Maps a spreadsheet header to an interview field.
+ * Accepts both field keys (CSV exports) and display labels (XLSX exports).
+ *
+ * @param header - Header cell text
+ * @returns Matching field, null for ignored columns, or undefined if unknown
+ */
+function mapHeader(header: string): ExportColumn | null | undefined {
+  const normalized = header.trim().toLowerCase();
+
+  if (IGNORED_HEADERS.includes(normalized)) {
+    return null;
+  }
+
+  return INTERVIEW_COLUMNS.find(
+    ({ field, label }) => field === normalized || label.toLowerCase() === normalized
+  )?.field;
+}
+
+/**
+ * Validates a single candidate interview record.
+ * Every interview field the record has must hold text; fields it leaves out are
+ * imported empty.
+ *
+ * @param record - Values keyed by interview field
+ * @param row - Row number for error reporting
+ * @returns Validation problems, empty when the record is valid
+ */
+function validateRecord(record: unknown, row: number): ImportRowError[] {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return [{ row, message: "Interview must be an object" }];
+  }
+
+  const errors: ImportRowError[] = [];
+  const fields = Object.keys(record);
+
+  for (const field of fields) {
+    if (!DEFAULT_EXPORT_COLUMNS.includes(field as ExportColumn)) {
+      errors.push({ row, message: `Unknown field '${field}'` });
+    }
+  }
+
+  const present = DEFAULT_EXPORT_COLUMNS.filter((field) => fields.includes(field));
+
+  if (present.length === 0) {
+    errors.push({ row, message: "Interview has none of the interview fields" });
+  }
+
+  for (const field of present) {
+    const value = (record as Record<string, unknown>)[field];
+
+    if (value === undefined || value === null || value === "") {
+      errors.push({ row, field, message: `${field} is required` });
+    } else if (typeof value !== "string") {
+      errors.push({ row, field, message: `${field} must be text` });
+    } else if (!value.trim()) {
+      errors.push({ row, field, message: `${field} must not be blank` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates candidate records and converts them into interviews.
+ *
+ * @param records - Candidate records with their source row numbers
+ * @returns Validated interviews
+ * @throws ImportValidationError listing every invalid row
+ * @throws Error if the file is empty or has too many rows
+ */
+function toInterviews(records: Array<{ row: number; record: unknown }>): Interview[] {
+  if (records.length === 0) {
+    throw new Error("The imported file contains no interviews");
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`At most ${MAX_IMPORT_ROWS} interviews can be imported at once`);
+  }
+
+  const errors = records.flatMap(({ row, record }) => validateRecord(record, row));
+
+  if (errors.length > 0) {
+    throw new ImportValidationError(errors);
+  }
+
+  return records.map(({ record }) =>
+    Object.fromEntries(
+      DEFAULT_EXPORT_COLUMNS.map((field) => [
+        field,
+        ((record as Record<string, string | undefined>)[field] ?? "").trim(),
+      ])
+    ) as unknown as Interview
+  );
+}
+
+/**
+ * Parses a CSV or XLSX export.
+ * For workbooks, the "Interviews" sheet is used when present, otherwise the first sheet.
+ *
+ * @param workbook - Parsed workbook
+ * @param restoreFormulas - Whether to strip the quote that sanitised CSV exports put
+ *   before formula triggers. XLSX cells are exported unchanged, so a leading quote
+ *   there is part of the text
+ * @returns Validated interviews
+ */
+function parseWorkbook(workbook: XLSX.WorkBook, restoreFormulas: boolean): Interview[] {
+  const sheetName = workbook.SheetNames.includes("Interviews")
+    ? "Interviews"
+    : workbook.SheetNames[0];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+  if (!sheet) {
+    throw new Error("The imported file contains no sheets");
+  }
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: false,
+  });
+
+  const headers = headerRow.map((cell) => String(cell));
+  const fields = headers.map(mapHeader);
+  const unknown = headers.filter((_, index) => fields[index] === undefined);
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown column${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}. ` +
+        `Expected: ${INTERVIEW_COLUMNS.map(({ field }) => field).join(", ")}`
+    );
+  }
+
+  if (!fields.some(Boolean)) {
+    throw new Error(
+      `The imported file has none of the interview columns: ` +
+        INTERVIEW_COLUMNS.map(({ field }) => field).join(", ")
+    );
+  }
+
+  return toInterviews(
+    dataRows.map((cells, index) => ({
+      // Spreadsheet row numbers are 1-based and the header occupies row 1
+      row: index + 2,
+      record: Object.fromEntries(
+        fields.flatMap((field, column) => {
+          const value = String(cells[column] ?? "");
+          return field ? [[field, restoreFormulas ? restoreFormula(value) : value]] : [];
+        })
+      ),
+    }))
+  );
+}
+
+/**
+ * Parses a JSON export, either the versioned envelope or a bare interview array.
+ *
+ * @param text - File contents
+ * @returns Validated interviews
+ */
+function parseJson(text: string): Interview[] {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The imported file is not valid JSON");
+  }
+
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const envelope = data as { schemaVersion?: unknown; interviews?: unknown };
+
+    if (envelope.schemaVersion !== 1) {
+      throw new Error(`Unsupported export schema version: ${String(envelope.schemaVersion)}`);
+    }
+
+    data = envelope.interviews;
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error("JSON imports must contain an interview array or an export envelope");
+  }
+
+  return toInterviews(data.map((record, index) => ({ row: index + 1, record })));
+}
+
+/**
+ * Parses an exported interview file back into interviews.
+ *
+ * @param data - File contents
+ * @param format - File format
+ * @returns Validated interviews
+ * @throws ImportValidationError if any row is invalid
+ * @throws Error if the file cannot be read or has the wrong structure
+ */
+export function parseInterviewImport(data: ArrayBuffer, format: ImportFormat): Interview[] {
+  switch (format) {
+    case "json":
+      return parseJson(new TextDecoder().decode(data));
+    case "csv":
+      // Raw parsing keeps values such as "2-7" from being converted to dates
+      return parseWorkbook(
+        XLSX.read(new TextDecoder().decode(data), { type: "string", raw: true }),
+        true
+      );
+    case "xlsx":
+      return parseWorkbook(XLSX.read(new Uint8Array(data), { type: "array" }), false);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Interview generation for the in-repo generation service.
+ *
+ * Every interview is generated from its own prompt by the configured LLM provider
+ * (see `llm-provider.ts`), so the interviews of a batch can be generated, retried
+ * and reported on one at a time.
+ */
+
+import { Interview, InterviewProfile, PricingTierId } from "@/types";
+import { buildInterviewPrompt } from "@/lib/interview-prompt";
+import { getLlmProvider } from "@/lib/llm-provider";
+
+/**
+ * Generates one interview for a customer profile.
+ *
+ * @param profile - Customer profile to interview
+ * @param tier - Pricing tier of the run
+ * @param index - Position of the interview in its batch
+ * @param sessionId - Checkout session or credit order the batch was paid with
+ * @returns Promise resolving to the generated interview
+ * @throws Error if the provider is misconfigured or its model fails
+ */
+export async function generateInterview(
+  profile: InterviewProfile,
+  tier: PricingTierId,
+  index: number,
+  sessionId: string
+): Promise<Interview> {
+  return getLlmProvider().generateInterview(
+    buildInterviewPrompt(profile, tier, index, sessionId)
+  );
+}
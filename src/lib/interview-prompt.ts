@@ -0,0 +1,122 @@
+/**
+ * Prompts for interview generation, and parsing of the model's answers.
+ *
+ * Every provider receives the same prompt and must answer with one JSON object
+ * holding the five answers, so adapters only differ in how they call their model.
+ */
+
+import { Interview, InterviewProfile, InterviewPrompt, PricingTierId } from "@/types";
+
+/**
+ * Interview fields holding answers, in question order.
+ */
+export const ANSWER_FIELDS = [
+  "question_one",
+  "question_two",
+  "question_three",
+  "question_four",
+  "question_five",
+] as const;
+
+/**
+ * Questions asked in every interview, in the order of `ANSWER_FIELDS`.
+ */
+const QUESTIONS = [
+  "Walk me through a typical day in your role.",
+  "What are the biggest challenges or frustrations in your work?",
+  "How do you deal with those challenges today, and with which tools?",
+  "How do those challenges affect your work and your team's objectives?",
+  "What would an ideal solution look like to you?",
+];
+
+/**
+ * Builds the prompt for one interview of a batch.
+ *
+ * @param profile - Customer profile of the interviewee
+ * @param tier - Pricing tier of the run
+ * @param index - Position of the interview in its batch
+ * @param sessionId - Checkout session or credit order the batch was paid with
+ * @returns Interview prompt
+ */
+export function buildInterviewPrompt(
+  profile: InterviewProfile,
+  tier: PricingTierId,
+  index: number,
+  sessionId: string
+): InterviewPrompt {
+  const depth = tier === "premium"
+    ? "Answer each question in three to four paragraphs, then add a follow-up question from the interviewer and the interviewee's answer, starting with **Follow-up:**."
+    : "Answer each question in one to two paragraphs.";
+
+  const system = [
+    "You simulate customer discovery interviews for product research.",
+    "Answer in the first person as the interviewee, with concrete examples, tools and numbers from their work. Do not pitch any product.",
+    depth,
+    "The questions are:",
+    ...QUESTIONS.map((question, i) => `${i + 1}. ${question}`),
+    `Reply with only a JSON object with the string keys ${ANSWER_FIELDS.join(", ")}, holding the answers to the questions in order. Answers may use Markdown.`,
+  ].join("\n");
+
+  const location = profile.country ? `, based in ${profile.country}` : "";
+  const user =
+    `Interviewee ${index + 1} of the batch: a ${profile.role} in ${profile.industry} ` +
+    `with ${profile.range} years of experience, at a company of ${profile.employee_range} ` +
+    `employees${location}. Give them a background and opinions distinct from the other ` +
+    "interviewees of the batch.";
+
+  return {
+    system,
+    user,
+    // Orders for the same profile get different interviews, and a retried one the same
+    seed: [
+      sessionId,
+      profile.role,
+      profile.industry,
+      profile.range,
+      profile.employee_range,
+      tier,
+      index,
+    ].join("|"),
+    context: { profile, tier, index },
+  };
+}
+
+/**
+ * Parses a model's answer into an interview.
+ * Tolerates the answer being wrapped in a Markdown code fence.
+ *
+ * @param text - Model output
+ * @param prompt - Prompt the output answers
+ * @returns Interview with the role and industry of the prompt
+ * @throws Error if the output is not a JSON object with all five answers
+ */
+export function parseInterviewOutput(text: string, prompt: InterviewPrompt): Interview {
+  const json = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+  let output: Record<string, unknown>;
+
+  try {
+    output = JSON.parse(json);
+  } catch {
+    throw new Error("Model did not answer with JSON");
+  }
+
+  const missing = ANSWER_FIELDS.filter(
+    (field) => typeof output?.[field] !== "string" || !(output[field] as string).trim()
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Model answer is missing ${missing.join(", ")}`);
+  }
+
+  const { role, industry } = prompt.context.profile;
+
+  return {
+    role,
+    industry,
+    question_one: String(output.question_one).trim(),
+    question_two: String(output.question_two).trim(),
+    question_three: String(output.question_three).trim(),
+    question_four: String(output.question_four).trim(),
+    question_five: String(output.question_five).trim(),
+  };
+}
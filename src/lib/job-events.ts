@@ -0,0 +1,62 @@
+/**
+ * In-process event bus of the in-repo generation service.
+ *
+ * The worker publishes each change to a job here, and the job's event stream
+ * forwards it to the browser, so clients hear about progress as it happens
+ * instead of polling for it. Events only reach subscribers in the same server
+ * process; clients that miss them fall back to polling the status endpoint.
+ */
+
+import { JobEvent } from "@/types";
+
+/**
+ * Callback receiving a job's events.
+ */
+export type JobEventListener = (event: JobEvent) => void;
+
+/**
+ * Listeners by job ID.
+ * Kept on `globalThis` so the worker and the stream route share them even when
+ * their bundles load this module separately.
+ */
+const globalJobEvents = globalThis as typeof globalThis & {
+  jobEventListeners?: Map<string, Set<JobEventListener>>;
+};
+const listeners = (globalJobEvents.jobEventListeners ??= new Map());
+
+/**
+ * Subscribes to the events of a job.
+ *
+ * @param jobId - Job ID
+ * @param listener - Callback receiving each event
+ * @returns Function that unsubscribes the listener
+ */
+export function subscribeToJob(jobId: string, listener: JobEventListener): () => void {
+  const jobListeners = listeners.get(jobId) ?? new Set<JobEventListener>();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0 && listeners.get(jobId) === jobListeners) {
+      listeners.delete(jobId);
+    }
+  };
+}
+
+/**
+ * Sends an event to every subscriber of a job.
+ * A failing listener is logged and does not stop the others.
+ *
+ * @param jobId - Job ID
+ * @param event - Event to send
+ */
+export function publishJobEvent(jobId: string, event: JobEvent): void {
+  for (const listener of listeners.get(jobId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Job ${jobId}: event listener failed:`, error);
+    }
+  }
+}
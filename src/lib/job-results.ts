@@ -0,0 +1,58 @@
+/**
+ * Persisted interviews of completed generation jobs.
+ *
+ * Results are saved once per job, in their own file in the data directory, so past
+ * orders can be reopened and exported after the in-memory app state is gone.
+ */
+
+import { Interview } from "@/types";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * Persisted results document of one job.
+ */
+interface JobResults {
+  /** Generated interviews, null until the job's results are saved */
+  interviews: Interview[] | null;
+}
+
+/** Job IDs that are safe to use as file names */
+const JOB_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Returns the store holding a job's interviews.
+ *
+ * @param jobId - Generation job ID
+ * @returns Store for the job's results
+ * @throws Error if the job ID is not safe to use as a file name
+ */
+function resultsStore(jobId: string) {
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    throw new Error(`Invalid job ID '${jobId}'`);
+  }
+
+  return createJsonStore<JobResults>(`results/${jobId}.json`, () => ({ interviews: null }));
+}
+
+/**
+ * Saves the interviews generated by a completed job.
+ *
+ * @param jobId - Generation job ID
+ * @param interviews - Generated interviews
+ */
+export async function saveJobResults(jobId: string, interviews: Interview[]): Promise<void> {
+  await resultsStore(jobId).update((data) => {
+    data.interviews = interviews;
+  });
+}
+
+/**
+ * Loads the interviews generated by a completed job.
+ *
+ * @param jobId - Generation job ID
+ * @returns Saved interviews, or null if none were saved
+ */
+export async function getJobResults(jobId: string): Promise<Interview[] | null> {
+  const { interviews } = await resultsStore(jobId).read();
+  return interviews;
+}
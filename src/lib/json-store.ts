@@ -0,0 +1,95 @@
+/**
+ * Minimal persistent storage backed by JSON files.
+ *
+ * Each store is a single file in the data directory (`DATA_DIR`, `.data` by default).
+ * Updates are serialised within the server process and written atomically, which
+ * suits a single-instance deployment; use a database for multi-instance hosting.
+ */
+
+import path from "path";
+import { promises as fs } from "fs";
+
+/**
+ * Persistent JSON document with serialised read-modify-write updates.
+ */
+export interface JsonStore<T> {
+  /** Reads the current document */
+  read(): Promise<T>;
+  /**
+   * Applies a change to the document and saves it.
+   * The callback may mutate the document in place; its return value is passed through.
+   */
+  update<R>(change: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+/**
+ * Pending update chains by file path.
+ * Kept on `globalThis` so route bundles that load this module separately share them.
+ */
+const globalStore = globalThis as typeof globalThis & {
+  jsonStoreQueues?: Map<string, Promise<unknown>>;
+};
+const queues = (globalStore.jsonStoreQueues ??= new Map());
+
+/**
+ * Returns the directory JSON stores are written to.
+ *
+ * @returns Absolute data directory path
+ */
+function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || ".data");
+}
+
+/**
+ * Creates a store persisted in a JSON file.
+ *
+ * @param fileName - File name within the data directory (e.g., "credits.json")
+ * @param createInitialValue - Creates the document used when the file does not exist yet
+ * @returns Store for the file
+ */
+export function createJsonStore<T>(
+  fileName: string,
+  createInitialValue: () => T
+): JsonStore<T> {
+  const filePath = path.join(getDataDir(), fileName);
+
+  // Chain of pending updates, so each one reads the result of the previous
+  const pending = () => queues.get(filePath) ?? Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return createInitialValue();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (data: T): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial document
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, filePath);
+  };
+
+  return {
+    read: () => pending().then(read, read),
+
+    update<R>(change: (data: T) => R | Promise<R>): Promise<R> {
+      const run = async () => {
+        const data = await read();
+        const result = await change(data);
+        await write(data);
+        return result;
+      };
+
+      const next = pending().then(run, run);
+      queues.set(filePath, next.catch(() => undefined));
+      return next;
+    },
+  };
+}
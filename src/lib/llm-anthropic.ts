@@ -0,0 +1,66 @@
+/**
+ * Anthropic implementation of the LLM provider interface, using the Messages API.
+ */
+
+import { Interview, InterviewPrompt, LlmProvider } from "@/types";
+import { parseInterviewOutput } from "@/lib/interview-prompt";
+import { DEFAULT_LLM_MODELS, LLM_PROVIDERS, LLM_REQUEST_TIMEOUT } from "@/constants/app";
+
+/** API used when LLM_BASE_URL is not set */
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+
+/** Messages API version the request and response shapes follow */
+const API_VERSION = "2023-06-01";
+
+/** Output limit per interview, enough for premium-depth answers */
+const MAX_TOKENS = 4096;
+
+/**
+ * Message fields read by this provider.
+ */
+interface Message {
+  content?: { type: string; text?: string }[];
+}
+
+/**
+ * Provider backed by Anthropic messages.
+ */
+export const anthropicLlmProvider: LlmProvider = {
+  name: LLM_PROVIDERS.ANTHROPIC,
+
+  async generateInterview(prompt: InterviewPrompt): Promise<Interview> {
+    if (!process.env.LLM_API_KEY) {
+      throw new Error("LLM API key is not configured");
+    }
+
+    const baseUrl = (process.env.LLM_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": process.env.LLM_API_KEY,
+        "anthropic-version": API_VERSION,
+      },
+      body: JSON.stringify({
+        model: process.env.LLM_MODEL || DEFAULT_LLM_MODELS.anthropic,
+        max_tokens: MAX_TOKENS,
+        system: prompt.system,
+        messages: [{ role: "user", content: prompt.user }],
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `Anthropic request failed with status ${response.status}`);
+    }
+
+    const message: Message = await response.json();
+    const text = (message.content ?? [])
+      .filter(({ type }) => type === "text")
+      .map(({ text }) => text ?? "")
+      .join("");
+
+    return parseInterviewOutput(text, prompt);
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * OpenAI implementation of the LLM provider interface.
+ *
+ * Uses the Chat Completions API in JSON mode. `LLM_BASE_URL` points it at any
+ * OpenAI-compatible server instead, e.g. a local model or a proxy.
+ */
+
+import { Interview, InterviewPrompt, LlmProvider } from "@/types";
+import { parseInterviewOutput } from "@/lib/interview-prompt";
+import { hashString } from "@/lib/utils";
+import { DEFAULT_LLM_MODELS, LLM_PROVIDERS, LLM_REQUEST_TIMEOUT } from "@/constants/app";
+
+/** API used when LLM_BASE_URL is not set */
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Chat completion fields read by this provider.
+ */
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Provider backed by OpenAI chat completions.
+ */
+export const openAiLlmProvider: LlmProvider = {
+  name: LLM_PROVIDERS.OPENAI,
+
+  async generateInterview(prompt: InterviewPrompt): Promise<Interview> {
+    if (!process.env.LLM_API_KEY) {
+      throw new Error("LLM API key is not configured");
+    }
+
+    const baseUrl = (process.env.LLM_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.LLM_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: process.env.LLM_MODEL || DEFAULT_LLM_MODELS.openai,
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
+        ],
+        response_format: { type: "json_object" },
+        // Best effort: OpenAI keeps answers mostly, not strictly, stable for a seed
+        seed: hashString(prompt.seed),
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `OpenAI request failed with status ${response.status}`);
+    }
+
+    const completion: ChatCompletion = await response.json();
+
+    return parseInterviewOutput(completion.choices?.[0]?.message?.content ?? "", prompt);
+  },
+};
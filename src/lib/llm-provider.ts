@@ -0,0 +1,47 @@
+/**
+ * Selection of the LLM provider interviews are generated with.
+ * The provider is configured with LLM_PROVIDER and defaults to the offline stub,
+ * so the generation service works without API keys.
+ */
+
+import { LlmProvider, LlmProviderName } from "@/types";
+import { stubLlmProvider } from "@/lib/llm-stub";
+import { openAiLlmProvider } from "@/lib/llm-openai";
+import { anthropicLlmProvider } from "@/lib/llm-anthropic";
+import { LLM_PROVIDERS } from "@/constants/app";
+
+/**
+ * Available provider implementations.
+ */
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  [LLM_PROVIDERS.STUB]: stubLlmProvider,
+  [LLM_PROVIDERS.OPENAI]: openAiLlmProvider,
+  [LLM_PROVIDERS.ANTHROPIC]: anthropicLlmProvider,
+};
+
+/**
+ * Returns the name of the configured LLM provider.
+ *
+ * @returns Provider name, defaulting to the stub
+ * @throws Error if an unknown provider is configured
+ */
+export function getLlmProviderName(): LlmProviderName {
+  const name = process.env.LLM_PROVIDER || LLM_PROVIDERS.STUB;
+
+  if (!(name in PROVIDERS)) {
+    throw new Error(
+      `Unknown LLM provider '${name}'. Supported providers: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+
+  return name as LlmProviderName;
+}
+
+/**
+ * Returns the configured LLM provider.
+ *
+ * @returns LLM provider implementation
+ */
+export function getLlmProvider(): LlmProvider {
+  return PROVIDERS[getLlmProviderName()];
+}
@@ -0,0 +1,94 @@
+/**
+ * Offline stub implementation of the LLM provider interface.
+ *
+ * Answers are assembled from the templates in `src/data/interview-templates.ts`
+ * with a random generator seeded from the prompt's seed, so the same interview of
+ * the same order always reads the same, while the interviews of a batch differ.
+ * Generation is slowed down to `LLM_STUB_DELAY_MS` per interview so progress
+ * reporting can be seen working. Intended for development and demos only.
+ */
+
+import { Interview, InterviewPrompt, LlmProvider } from "@/types";
+import { ANSWER_FIELDS } from "@/lib/interview-prompt";
+import { hashString } from "@/lib/utils";
+import { ANSWER_TEMPLATES, PERSONA_TRAITS } from "@/data/interview-templates";
+import { LLM_PROVIDERS, LLM_STUB_DEFAULT_DELAY } from "@/constants/app";
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ *
+ * @param seed - 32-bit seed
+ * @returns Function returning numbers between 0 (inclusive) and 1 (exclusive)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns the simulated generation time per interview.
+ *
+ * @returns Delay in milliseconds
+ */
+function getStubDelay(): number {
+  const delay = Number(process.env.LLM_STUB_DELAY_MS);
+  return Number.isFinite(delay) && delay >= 0 ? delay : LLM_STUB_DEFAULT_DELAY;
+}
+
+/**
+ * Stub provider, composing interviews from templates without network access.
+ */
+export const stubLlmProvider: LlmProvider = {
+  name: LLM_PROVIDERS.STUB,
+
+  async generateInterview(prompt: InterviewPrompt): Promise<Interview> {
+    const { profile, tier } = prompt.context;
+    const random = createRandom(hashString(prompt.seed));
+    const pick = <T>(options: readonly T[]): T => options[Math.floor(random() * options.length)];
+
+    const values: Record<string, string> = {
+      role: profile.role,
+      industry: profile.industry,
+      range: profile.range,
+      employees: profile.employee_range,
+    };
+    for (const [trait, options] of Object.entries(PERSONA_TRAITS)) {
+      values[trait] = pick(options);
+    }
+    // Traits such as "my manager" may start a sentence, so sentences are capitalized after filling in
+    const fill = (template: string) =>
+      template
+        .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+        .replace(/(^|[.?!]\s+)([a-z])/g, (_, start: string, letter: string) => start + letter.toUpperCase());
+
+    const answers = ANSWER_FIELDS.map((field) => {
+      const { openings, details, closings, followUps } = ANSWER_TEMPLATES[field];
+      const paragraphs: string[] = [pick(openings), pick(details), pick(closings)];
+
+      if (tier === "premium") {
+        paragraphs.push(`**Follow-up:** ${pick(followUps)}`);
+      }
+
+      return paragraphs.map(fill).join("\n\n");
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, getStubDelay()));
+
+    return {
+      role: profile.role,
+      industry: profile.industry,
+      question_one: answers[0],
+      question_two: answers[1],
+      question_three: answers[2],
+      question_four: answers[3],
+      question_five: answers[4],
+    };
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * Minimal Markdown parser for interview answers.
+ * Converts answer text into paragraphs, headings and list items with bold/italic runs,
+ * so document exporters can reproduce the formatting shown in the interview table.
+ */
+
+/**
+ * A span of text sharing the same inline formatting.
+ */
+export interface TextRun {
+  /** Text content of the run */
+  text: string;
+  /** Whether the run is bold (`**text**` or `__text__`) */
+  bold?: boolean;
+  /** Whether the run is italic (`*text*`) */
+  italic?: boolean;
+}
+
+/**
+ * A block-level element of an answer.
+ */
+export interface MarkdownBlock {
+  /** Block kind - plain paragraph, heading, bulleted or numbered list item */
+  type: "paragraph" | "heading" | "bullet" | "numbered";
+  /** Inline content of the block */
+  runs: TextRun[];
+  /** Heading level (1-6), only present for headings */
+  level?: number;
+  /** Item number as written in the source, only present for numbered items */
+  number?: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^[-*+•]\s+(.*)$/;
+const NUMBERED_PATTERN = /^(\d+)[.)]\s+(.*)$/;
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|\*(?!\s)(.+?)\*/g;
+
+/**
+ * Splits a line of Markdown into formatted text runs.
+ *
+ * @param text - Inline Markdown text
+ * @returns Runs in document order
+ */
+export function parseInlineRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, index) });
+    }
+
+    if (match[2] !== undefined) {
+      runs.push({ text: match[2], bold: true });
+    } else {
+      runs.push({ text: match[3], italic: true });
+    }
+
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+
+  return runs;
+}
+
+/**
+ * Parses answer Markdown into block-level elements.
+ * Consecutive plain lines are joined into a single paragraph, as Markdown renderers do.
+ *
+ * @param markdown - Answer text
+ * @returns Blocks in document order
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", runs: parseInlineRuns(paragraph.join(" ")) });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = NUMBERED_PATTERN.exec(line);
+
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        runs: parseInlineRuns(heading[2]),
+      });
+    } else if (bullet) {
+      flushParagraph();
+      blocks.push({ type: "bullet", runs: parseInlineRuns(bullet[1]) });
+    } else if (numbered) {
+      flushParagraph();
+      blocks.push({
+        type: "numbered",
+        number: Number(numbered[1]),
+        runs: parseInlineRuns(numbered[2]),
+      });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,163 @@
+/**
+ * Order history backed by persisted job results.
+ *
+ * The outcome of an order's job is fetched from the generation service until the
+ * job finishes. From then on the order and its interviews are served from the data
+ * directory, so past orders can be reopened and exported at any time. Finished
+ * orders still owed a refund are settled whenever they are synced.
+ */
+
+import { Interview, JobStatus, Order } from "@/types";
+import { fetchJobStatus } from "@/lib/fulfillment";
+import { getJobResults, saveJobResults } from "@/lib/job-results";
+import { findOrder, listOrders, updateOrder } from "@/lib/orders";
+
+/**
+ * Error raised when an order does not exist or belongs to another account.
+ */
+export class OrderNotFoundError extends Error {
+  constructor(orderId: string) {
+    super(`Order '${orderId}' not found`);
+    this.name = "OrderNotFoundError";
+  }
+}
+
+/**
+ * Checks whether a finished order's undelivered interviews still have to be refunded.
+ *
+ * @param order - Order to check
+ * @returns True if the job has finished short and no refund has been issued
+ */
+function isRefundOwed({ status, interviews, delivered, refund }: Order): boolean {
+  return (
+    status !== "pending" &&
+    (delivered ?? 0) < interviews &&
+    (!refund || refund.status === "pending")
+  );
+}
+
+/**
+ * Checks whether an order's job has finished and any refund owed has been issued.
+ *
+ * @param order - Order to check
+ * @returns True if nothing more will change about the order's refund
+ */
+export function isOrderSettled(order: Order): boolean {
+  return order.status !== "pending" && !isRefundOwed(order);
+}
+
+/**
+ * Brings an order up to date with its job, saving the interviews once it completes.
+ * Orders that finished short are refunded in the background.
+ *
+ * @param order - Order to update
+ * @returns Updated order and its job status; finished jobs are answered from saved results
+ * @throws Error if the generation service cannot be reached for a pending job
+ */
+export async function syncOrderStatus(
+  order: Order
+): Promise<{ order: Order; status: JobStatus }> {
+  const synced = await fetchOrderStatus(order);
+
+  if (isRefundOwed(synced.order)) {
+    // Loaded on demand, since refunds sync orders through this module
+    void import("@/lib/refunds").then(({ settleFinishedJob }) => {
+      settleFinishedJob(order.jobId);
+    });
+  }
+
+  return synced;
+}
+
+/**
+ * Fetches the outcome of an order's job, saving the interviews once it completes.
+ * Unlike `syncOrderStatus`, leaves any refund owed to the caller.
+ *
+ * @param order - Order to update
+ * @returns Updated order and its job status; finished jobs are answered from saved results
+ * @throws Error if the generation service cannot be reached for a pending job
+ */
+export async function fetchOrderStatus(
+  order: Order
+): Promise<{ order: Order; status: JobStatus }> {
+  if (order.status === "completed") {
+    const interviews = (await getJobResults(order.jobId)) ?? [];
+    return { order, status: { status: "completed", data: interviews } };
+  }
+
+  if (order.status === "failed") {
+    return { order, status: { status: "failed" } };
+  }
+
+  const status = await fetchJobStatus(order.jobId);
+
+  if (status.status === "completed") {
+    const interviews = status.data ?? [];
+    await saveJobResults(order.jobId, interviews);
+
+    return {
+      order: await updateOrder(order.id, {
+        status: "completed",
+        delivered: interviews.length,
+      }),
+      status,
+    };
+  }
+
+  if (status.status === "failed") {
+    return {
+      order: await updateOrder(order.id, { status: "failed", delivered: 0 }),
+      status,
+    };
+  }
+
+  return { order, status };
+}
+
+/**
+ * Lists an account's orders with up-to-date job statuses.
+ * Orders whose status cannot be fetched are listed with their last known status.
+ *
+ * @param accountId - Account ID
+ * @returns Orders, most recent first
+ */
+export async function listAccountOrders(accountId: string): Promise<Order[]> {
+  const orders = await listOrders(accountId);
+
+  return Promise.all(
+    orders.map((order) =>
+      order.status === "pending"
+        ? syncOrderStatus(order).then(
+            (synced) => synced.order,
+            () => order
+          )
+        : order
+    )
+  );
+}
+
+/**
+ * Loads one of an account's orders with its generated interviews.
+ *
+ * @param accountId - Account requesting the order
+ * @param orderId - Order ID
+ * @returns Up-to-date order and its interviews, empty until the job has completed
+ * @throws OrderNotFoundError if the order does not exist or belongs to another account
+ */
+export async function getAccountOrder(
+  accountId: string,
+  orderId: string
+): Promise<{ order: Order; interviews: Interview[] }> {
+  const order = await findOrder(orderId);
+
+  if (!order || order.accountId !== accountId) {
+    throw new OrderNotFoundError(orderId);
+  }
+
+  const synced = await syncOrderStatus(order);
+
+  return {
+    order: synced.order,
+    interviews: synced.status.status === "completed" ? synced.status.data ?? [] : [],
+  };
+}
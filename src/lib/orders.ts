@@ -0,0 +1,105 @@
+/**
+ * Persisted record of paid generation runs.
+ *
+ * An order is recorded when its job is started, whether it was paid for with a
+ * checkout session or with credits, so a finished job can be traced back to the
+ * payment it should be refunded against, and listed in the account's order history.
+ */
+
+import { Order } from "@/types";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * Persisted orders document.
+ */
+interface OrderBook {
+  /** All orders, in the order their jobs were started */
+  orders: Order[];
+}
+
+const orderBook = createJsonStore<OrderBook>("orders.json", () => ({ orders: [] }));
+
+/**
+ * Records an order for a started job. Recording the same order twice has no effect.
+ *
+ * @param order - Order fields
+ * @returns Recorded order, with its job pending
+ */
+export async function recordOrder(
+  order: Omit<Order, "createdAt" | "status">
+): Promise<Order> {
+  return orderBook.update((data) => {
+    const existing = data.orders.find(({ id }) => id === order.id);
+
+    if (existing) {
+      return existing;
+    }
+
+    const recorded: Order = {
+      ...order,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    data.orders.push(recorded);
+
+    return recorded;
+  });
+}
+
+/**
+ * Finds an order by ID.
+ *
+ * @param orderId - Checkout session ID or credit order ID
+ * @returns Order, or undefined if it does not exist
+ */
+export async function findOrder(orderId: string): Promise<Order | undefined> {
+  const { orders } = await orderBook.read();
+  return orders.find(({ id }) => id === orderId);
+}
+
+/**
+ * Finds the order a job was started for.
+ *
+ * @param jobId - Generation job ID
+ * @returns Order, or undefined if the job has no recorded order
+ */
+export async function findOrderByJobId(jobId: string): Promise<Order | undefined> {
+  const { orders } = await orderBook.read();
+  return orders.find((order) => order.jobId === jobId);
+}
+
+/**
+ * Lists the orders placed by an account.
+ *
+ * @param accountId - Account ID
+ * @returns Orders, most recent first
+ */
+export async function listOrders(accountId: string): Promise<Order[]> {
+  const { orders } = await orderBook.read();
+  return orders.filter((order) => order.accountId === accountId).reverse();
+}
+
+/**
+ * Updates the job outcome or refund of an order.
+ *
+ * @param orderId - Order ID
+ * @param changes - Fields to update
+ * @returns Updated order
+ * @throws Error if the order does not exist
+ */
+export async function updateOrder(
+  orderId: string,
+  changes: Partial<Pick<Order, "status" | "delivered" | "refund">>
+): Promise<Order> {
+  return orderBook.update((data) => {
+    const order = data.orders.find(({ id }) => id === orderId);
+
+    if (!order) {
+      throw new Error(`Order '${orderId}' not found`);
+    }
+
+    Object.assign(order, changes);
+
+    return order;
+  });
+}
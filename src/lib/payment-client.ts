@@ -0,0 +1,77 @@
+/**
+ * Client-side half of the payment provider abstraction.
+ * Redirects the buyer to the hosted checkout page of the configured provider.
+ */
+
+import type { Stripe } from '@stripe/stripe-js';
+
+import { CheckoutReturnUrls, CheckoutSession } from '@/types';
+import {
+  CHECKOUT_CANCELLED_PARAM,
+  CHECKOUT_CANCELLED_VALUE,
+  PAYMENT_PROVIDERS,
+} from '@/constants/app';
+
+/** Stripe.js instance, loaded on first use so other providers never fetch it */
+let stripePromise: Promise<Stripe | null> | null = null;
+
+/**
+ * Loads Stripe.js with the publishable key from environment variables.
+ * 
+ * @returns Promise resolving to the Stripe instance
+ */
+function loadStripeClient(): Promise<Stripe | null> {
+  stripePromise ??= import('@stripe/stripe-js').then(({ loadStripe }) =>
+    loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!)
+  );
+  
+  return stripePromise;
+}
+
+/**
+ * Builds the return URLs sent to the checkout route.
+ * Both lead back to the home page; a cancelled checkout is marked so the form
+ * can tell the buyer they were not charged.
+ * 
+ * @returns Success and cancel destinations on the current origin
+ */
+export function getCheckoutReturnUrls(): CheckoutReturnUrls {
+  const successUrl = new URL('/', window.location.origin);
+  const cancelUrl = new URL('/', window.location.origin);
+  cancelUrl.searchParams.set(CHECKOUT_CANCELLED_PARAM, CHECKOUT_CANCELLED_VALUE);
+  
+  return {
+    successUrl: successUrl.toString(),
+    cancelUrl: cancelUrl.toString(),
+  };
+}
+
+/**
+ * Redirects the buyer to the hosted checkout page for a session.
+ * 
+ * @param session - Checkout session returned by the checkout route
+ * @throws Error if the redirect cannot be started
+ */
+export async function redirectToCheckout(session: CheckoutSession): Promise<void> {
+  if (session.provider === PAYMENT_PROVIDERS.STRIPE) {
+    const stripe = await loadStripeClient();
+    
+    if (!stripe) {
+      throw new Error('Stripe failed to initialize');
+    }
+    
+    const result = await stripe.redirectToCheckout({ sessionId: session.id });
+    
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    
+    return;
+  }
+  
+  if (!session.url) {
+    throw new Error('Checkout session has no checkout page');
+  }
+  
+  window.location.assign(session.url);
+}
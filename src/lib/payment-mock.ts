@@ -0,0 +1,205 @@
+/**
+ * Offline mock implementation of the payment provider interface.
+ *
+ * Sessions are kept in memory and paid for on a local fake checkout page
+ * (`/mock-checkout/[sessionId]`), so the purchase flow runs without Stripe keys
+ * or network access. Promotion codes come from the local discount table
+ * (`LOCAL_PROMO_CODES`). Intended for development and demos only.
+ */
+
+import { randomUUID } from "crypto";
+
+import { CheckoutRefund, CheckoutSession, PaymentProvider, PriceQuote } from "@/types";
+import {
+  CHECKOUT_SESSION_ID_PLACEHOLDER,
+  LOCAL_PROMO_CODES,
+  MOCK_CHECKOUT_PAGE_PATH,
+  PAYMENT_PROVIDERS,
+} from "@/constants/app";
+
+/**
+ * Mock checkout session with the details shown on the fake checkout page.
+ */
+export interface MockCheckoutSession extends CheckoutSession {
+  /** Name of the purchase */
+  productName: string;
+  /** Price of the purchase */
+  price: PriceQuote;
+  /** Simulated refund, once issued */
+  refund: CheckoutRefund | null;
+  /** Redirect after simulated payment */
+  successUrl: string;
+  /** Redirect after simulated cancellation */
+  cancelUrl: string;
+  /** Open until paid for or cancelled */
+  status: "open" | "complete" | "expired";
+}
+
+/**
+ * Session store shared across route bundles and preserved across dev reloads.
+ */
+const store = globalThis as typeof globalThis & {
+  mockCheckoutSessions?: Map<string, MockCheckoutSession>;
+};
+const sessions = (store.mockCheckoutSessions ??= new Map());
+
+/**
+ * Finds a mock checkout session.
+ *
+ * @param sessionId - Mock checkout session ID
+ * @returns Stored session
+ * @throws Error if no session has the given ID
+ */
+export function getMockCheckoutSession(sessionId: string): MockCheckoutSession {
+  const session = sessions.get(sessionId);
+
+  if (!session) {
+    throw new Error(`Checkout session '${sessionId}' not found`);
+  }
+
+  return session;
+}
+
+/**
+ * Finds an open mock checkout session.
+ *
+ * @param sessionId - Mock checkout session ID
+ * @returns Open session
+ * @throws Error if the session does not exist or is already complete or cancelled
+ */
+function getOpenSession(sessionId: string): MockCheckoutSession {
+  const session = getMockCheckoutSession(sessionId);
+
+  if (session.status !== "open") {
+    throw new Error(`Checkout session '${sessionId}' is ${session.status}`);
+  }
+
+  return session;
+}
+
+/**
+ * Simulates a successful payment.
+ *
+ * @param sessionId - Mock checkout session ID
+ * @returns Success URL to redirect the buyer to
+ */
+export function completeMockCheckoutSession(sessionId: string): string {
+  const session = getOpenSession(sessionId);
+
+  session.status = "complete";
+  session.paymentStatus = "paid";
+
+  return session.successUrl.replace(CHECKOUT_SESSION_ID_PLACEHOLDER, sessionId);
+}
+
+/**
+ * Simulates the buyer cancelling checkout.
+ *
+ * @param sessionId - Mock checkout session ID
+ * @returns Cancel URL to redirect the buyer to
+ */
+export function cancelMockCheckoutSession(sessionId: string): string {
+  const session = getOpenSession(sessionId);
+
+  session.status = "expired";
+
+  return session.cancelUrl;
+}
+
+/**
+ * Returns the provider-independent view of a mock session.
+ *
+ * @param session - Stored mock session
+ * @returns Copy of the checkout session fields
+ */
+function toCheckoutSession({
+  id,
+  provider,
+  url,
+  paymentStatus,
+  amountTotal,
+  currency,
+  metadata,
+}: MockCheckoutSession): CheckoutSession {
+  return {
+    id,
+    provider,
+    url,
+    paymentStatus,
+    amountTotal,
+    currency,
+    metadata: { ...metadata },
+  };
+}
+
+/**
+ * Payment provider that simulates checkout locally.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: PAYMENT_PROVIDERS.MOCK,
+
+  async createCheckoutSession({ productName, price, successUrl, cancelUrl, metadata }) {
+    const id = `cs_mock_${randomUUID().replace(/-/g, "")}`;
+
+    // The checkout page is served by this app, on the same origin as the success URL
+    const url = new URL(`${MOCK_CHECKOUT_PAGE_PATH}/${id}`, successUrl).toString();
+
+    const session: MockCheckoutSession = {
+      id,
+      provider: PAYMENT_PROVIDERS.MOCK,
+      url,
+      paymentStatus: "unpaid",
+      amountTotal: price.total,
+      currency: price.currency,
+      metadata: { ...metadata },
+      productName,
+      price,
+      refund: null,
+      successUrl,
+      cancelUrl,
+      status: "open",
+    };
+    sessions.set(id, session);
+
+    return toCheckoutSession(session);
+  },
+
+  async findPromotionCode(code) {
+    const promotion = LOCAL_PROMO_CODES.find(
+      (entry) => entry.code === code.toUpperCase()
+    );
+
+    return promotion ? { ...promotion } : null;
+  },
+
+  async retrieveCheckoutSession(sessionId) {
+    return toCheckoutSession(getMockCheckoutSession(sessionId));
+  },
+
+  async updateCheckoutSessionMetadata(sessionId, metadata) {
+    const session = getMockCheckoutSession(sessionId);
+    session.metadata = { ...session.metadata, ...metadata };
+  },
+
+  async refundCheckoutSession(sessionId, { quantity, totalQuantity }) {
+    const session = getMockCheckoutSession(sessionId);
+
+    if (session.paymentStatus !== "paid") {
+      throw new Error("Checkout session has no payment to refund");
+    }
+
+    // Like Stripe's idempotency key, a session is refunded at most once
+    if (session.refund) {
+      return session.refund;
+    }
+
+    const { total, currency } = session.price;
+    session.refund = {
+      id: `re_mock_${randomUUID().replace(/-/g, "")}`,
+      amount: Math.round((total * quantity) / totalQuantity),
+      currency,
+    };
+
+    return session.refund;
+  },
+};
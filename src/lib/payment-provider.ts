@@ -0,0 +1,45 @@
+/**
+ * Selection of the server-side payment provider.
+ * The provider is configured with NEXT_PUBLIC_PAYMENT_PROVIDER, which the client
+ * also reads, so checkout sessions and redirects always use the same provider.
+ */
+
+import { PaymentProvider, PaymentProviderName } from "@/types";
+import { mockPaymentProvider } from "@/lib/payment-mock";
+import { stripePaymentProvider } from "@/lib/payment-stripe";
+import { PAYMENT_PROVIDERS } from "@/constants/app";
+
+/**
+ * Available provider implementations.
+ */
+const PROVIDERS: Record<PaymentProviderName, PaymentProvider> = {
+  [PAYMENT_PROVIDERS.STRIPE]: stripePaymentProvider,
+  [PAYMENT_PROVIDERS.MOCK]: mockPaymentProvider,
+};
+
+/**
+ * Returns the name of the configured payment provider.
+ *
+ * @returns Provider name, defaulting to Stripe
+ * @throws Error if an unknown provider is configured
+ */
+export function getPaymentProviderName(): PaymentProviderName {
+  const name = process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || PAYMENT_PROVIDERS.STRIPE;
+
+  if (!(name in PROVIDERS)) {
+    throw new Error(
+      `Unknown payment provider '${name}'. Supported providers: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+
+  return name as PaymentProviderName;
+}
+
+/**
+ * Returns the configured payment provider.
+ *
+ * @returns Payment provider implementation
+ */
+export function getPaymentProvider(): PaymentProvider {
+  return PROVIDERS[getPaymentProviderName()];
+}
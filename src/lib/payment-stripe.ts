@@ -0,0 +1,152 @@
+/**
+ * Stripe implementation of the payment provider interface.
+ */
+
+import Stripe from "stripe";
+
+import { CheckoutSession, PaymentProvider } from "@/types";
+import { PAYMENT_PROVIDERS, PRICING_CURRENCY } from "@/constants/app";
+
+/** Stripe client, created on first use so other providers never need Stripe keys */
+let stripe: Stripe | null = null;
+
+/**
+ * Returns the shared server-side Stripe client.
+ * Uses the latest stable API version for consistent behavior.
+ *
+ * @returns Stripe client
+ * @throws Error if the Stripe secret key is not configured
+ */
+export function getStripe(): Stripe {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error("Stripe secret key is not configured");
+  }
+
+  stripe ??= new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: "2025-01-27.acacia",
+  });
+
+  return stripe;
+}
+
+/**
+ * Converts a Stripe Checkout session into a provider-independent session.
+ *
+ * @param session - Stripe Checkout session
+ * @returns Checkout session
+ */
+export function toCheckoutSession(session: Stripe.Checkout.Session): CheckoutSession {
+  return {
+    id: session.id,
+    provider: PAYMENT_PROVIDERS.STRIPE,
+    url: session.url,
+    // Sessions that need no payment (e.g. fully discounted) count as paid
+    paymentStatus: session.payment_status === "unpaid" ? "unpaid" : "paid",
+    amountTotal: session.amount_total,
+    currency: session.currency,
+    metadata: session.metadata ?? {},
+  };
+}
+
+/**
+ * Payment provider backed by Stripe Checkout.
+ */
+export const stripePaymentProvider: PaymentProvider = {
+  name: PAYMENT_PROVIDERS.STRIPE,
+
+  async createCheckoutSession({
+    productName,
+    price,
+    promotion,
+    successUrl,
+    cancelUrl,
+    metadata,
+  }) {
+    const session = await getStripe().checkout.sessions.create({
+      // Only accept card payments
+      payment_method_types: ["card"],
+
+      // One line item per price band, priced from the app's pricing table
+      line_items: price.lines.map(({ label, quantity, unitAmount }) => ({
+        price_data: {
+          currency: price.currency,
+          unit_amount: unitAmount,
+          product_data: {
+            name: price.lines.length > 1 ? `${productName} (${label})` : productName,
+          },
+        },
+        quantity,
+      })),
+
+      // Stripe computes and enforces the promotion code's discount itself
+      ...(promotion?.id && { discounts: [{ promotion_code: promotion.id }] }),
+
+      // One-time payment mode
+      mode: "payment",
+
+      // Redirect URLs after payment
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+
+      metadata,
+    });
+
+    return toCheckoutSession(session);
+  },
+
+  async findPromotionCode(code) {
+    const { data: [promotion] } = await getStripe().promotionCodes.list({
+      code,
+      active: true,
+      limit: 1,
+    });
+    const coupon = promotion?.coupon;
+
+    // Fixed discounts in another currency cannot apply to these prices
+    if (!coupon?.valid || (coupon.amount_off && coupon.currency !== PRICING_CURRENCY)) {
+      return null;
+    }
+
+    return {
+      code: promotion.code.toUpperCase(),
+      id: promotion.id,
+      percentOff: coupon.percent_off,
+      amountOff: coupon.amount_off,
+    };
+  },
+
+  async retrieveCheckoutSession(sessionId) {
+    return toCheckoutSession(await getStripe().checkout.sessions.retrieve(sessionId));
+  },
+
+  async updateCheckoutSessionMetadata(sessionId, metadata) {
+    // Stripe merges metadata updates, so keys not given here are kept
+    await getStripe().checkout.sessions.update(sessionId, { metadata });
+  },
+
+  async refundCheckoutSession(sessionId, { quantity, totalQuantity }) {
+    const session = await getStripe().checkout.sessions.retrieve(sessionId);
+    const paymentIntent = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    if (!paymentIntent || !session.amount_total) {
+      throw new Error("Checkout session has no payment to refund");
+    }
+
+    const refund = await getStripe().refunds.create(
+      {
+        payment_intent: paymentIntent,
+        amount: Math.round((session.amount_total * quantity) / totalQuantity),
+        metadata: {
+          checkout_session_id: sessionId,
+          interviews: String(quantity),
+        },
+      },
+      // A session is refunded at most once, even if the request is retried
+      { idempotencyKey: `refund_${sessionId}` }
+    );
+
+    return { id: refund.id, amount: refund.amount, currency: refund.currency };
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Interview batch pricing.
+ *
+ * Prices come from the `PRICING_TIERS` table and are computed by the same code on
+ * the client (price preview) and the server (checkout line items), so the price
+ * shown in the form is the price charged.
+ */
+
+import {
+  PriceQuote,
+  PriceQuoteLine,
+  PricingTier,
+  PricingTierId,
+  PromotionCode,
+} from "@/types";
+import { PRICING_CURRENCY, PRICING_TIERS } from "@/constants/app";
+
+/**
+ * Checks whether a value is the ID of a pricing tier.
+ *
+ * @param value - Value to check, e.g. from a request body
+ * @returns True for known tier IDs
+ */
+export function isPricingTierId(value: unknown): value is PricingTierId {
+  return PRICING_TIERS.some(({ id }) => id === value);
+}
+
+/**
+ * Finds a pricing tier.
+ *
+ * @param tierId - Tier ID
+ * @returns Pricing tier
+ * @throws Error if the tier does not exist
+ */
+export function getPricingTier(tierId: string): PricingTier {
+  const tier = PRICING_TIERS.find(({ id }) => id === tierId);
+
+  if (!tier) {
+    throw new Error(`Unknown pricing tier '${tierId}'`);
+  }
+
+  return tier;
+}
+
+/**
+ * Prices a batch of interviews with graduated volume pricing: each band prices
+ * only the interviews that fall within it.
+ *
+ * @param interviews - Number of interviews in the batch
+ * @param tierId - Pricing tier to price the batch with
+ * @returns Price quote with one line per band used
+ * @throws Error if the tier does not exist
+ */
+export function quotePrice(interviews: number, tierId: PricingTierId): PriceQuote {
+  const lines: PriceQuoteLine[] = [];
+  let priced = 0;
+
+  for (const { upTo, unitAmount } of getPricingTier(tierId).bands) {
+    const quantity = Math.min(upTo ?? interviews, interviews) - priced;
+
+    if (quantity <= 0) {
+      continue;
+    }
+
+    lines.push({
+      label: `${priced + 1}-${priced + quantity}`,
+      quantity,
+      unitAmount,
+      amount: quantity * unitAmount,
+    });
+    priced += quantity;
+  }
+
+  const subtotal = lines.reduce((total, line) => total + line.amount, 0);
+
+  return {
+    tier: tierId,
+    interviews,
+    currency: PRICING_CURRENCY,
+    lines,
+    subtotal,
+    promoCode: null,
+    discount: 0,
+    total: subtotal,
+  };
+}
+
+/**
+ * Applies a promotion code to a price quote.
+ * Fixed discounts never take the total below zero.
+ *
+ * @param quote - Price quote without a discount
+ * @param promotion - Promotion code to apply
+ * @returns Price quote with the discount applied
+ */
+export function applyPromotion(quote: PriceQuote, promotion: PromotionCode): PriceQuote {
+  const discount = promotion.percentOff
+    ? Math.round((quote.subtotal * promotion.percentOff) / 100)
+    : Math.min(promotion.amountOff ?? 0, quote.subtotal);
+
+  return {
+    ...quote,
+    promoCode: promotion.code,
+    discount,
+    total: quote.subtotal - discount,
+  };
+}
+
+/**
+ * Formats an amount in a currency's minor unit for display.
+ *
+ * @param amount - Amount in the currency's minor unit (e.g. cents)
+ * @param currency - ISO currency code
+ * @returns Localised currency string (e.g. "$45.00")
+ */
+export function formatPrice(amount: number, currency: string): string {
+  const format = new Intl.NumberFormat(undefined, { style: "currency", currency });
+  const digits = format.resolvedOptions().maximumFractionDigits ?? 2;
+
+  return format.format(amount / 10 ** digits);
+}
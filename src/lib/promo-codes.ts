@@ -0,0 +1,54 @@
+/**
+ * Promotion code redemption for interview checkouts.
+ *
+ * Codes are looked up with the configured payment provider: Stripe promotion codes
+ * for Stripe, and the local discount table for other providers. The discounted
+ * price is computed with the shared pricing code, so the form's preview matches
+ * the checkout session.
+ */
+
+import { PriceQuote, PricingTierId, PromotionCode } from "@/types";
+import { FormValidationError } from "@/lib/validation";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { applyPromotion, quotePrice } from "@/lib/pricing";
+
+/**
+ * Price of an interview batch with its promotion code.
+ */
+export interface PromotionalQuote {
+  /** Price with the discount applied */
+  price: PriceQuote;
+  /** Redeemed promotion code, or null if none was entered */
+  promotion: PromotionCode | null;
+}
+
+/**
+ * Prices an interview batch, redeeming a promotion code if one was entered.
+ *
+ * @param interviews - Number of interviews in the batch
+ * @param tier - Pricing tier
+ * @param promoCode - Promotion code entered by the buyer, if any
+ * @returns Discounted price and the redeemed promotion code
+ * @throws FormValidationError keyed by `promoCode` if the code is unknown or expired
+ */
+export async function quoteWithPromoCode(
+  interviews: number,
+  tier: PricingTierId,
+  promoCode?: string
+): Promise<PromotionalQuote> {
+  const price = quotePrice(interviews, tier);
+
+  if (!promoCode) {
+    return { price, promotion: null };
+  }
+
+  const promotion = await getPaymentProvider().findPromotionCode(promoCode);
+
+  if (!promotion) {
+    throw new FormValidationError({
+      promoCode: "This promo code is invalid or has expired",
+    });
+  }
+
+  return { price: applyPromotion(price, promotion), promotion };
+}
@@ -0,0 +1,185 @@
+/**
+ * Settlement of finished jobs' orders: refunds are recorded as pending before they
+ * are issued, each order is refunded at most once, and accounts only see their own.
+ */
+
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { JobStatus, Order } from "@/types";
+import { JobNotFoundError } from "@/lib/generation-jobs";
+import { mockPaymentProvider } from "@/lib/payment-mock";
+
+const { fetchJobStatus } = vi.hoisted(() => ({
+  fetchJobStatus: vi.fn<(jobId: string) => Promise<JobStatus>>(),
+}));
+vi.mock("@/lib/fulfillment", () => ({ fetchJobStatus }));
+
+let refunds: typeof import("@/lib/refunds");
+let orders: typeof import("@/lib/orders");
+let credits: typeof import("@/lib/credits");
+let dataDir: string;
+
+/**
+ * Records an order whose job has finished with the given interviews delivered.
+ *
+ * @param order - Order fields that differ from a five-interview credit order
+ * @param delivered - Number of interviews the job delivered
+ * @returns Recorded order
+ */
+async function recordFinishedOrder(
+  order: Partial<Order> & Pick<Order, "id" | "jobId">,
+  delivered: number
+): Promise<Order> {
+  fetchJobStatus.mockResolvedValue(
+    delivered > 0
+      ? { status: "completed", data: Array(delivered).fill({}) }
+      : { status: "failed", error: "Generation failed" }
+  );
+
+  return orders.recordOrder({
+    type: "credits",
+    accountId: "account",
+    interviews: 5,
+    profile: null,
+    tier: null,
+    amount: null,
+    currency: null,
+    promoCode: null,
+    ...order,
+  });
+}
+
+beforeAll(async () => {
+  // Stores read DATA_DIR when their modules load, so they are imported afterwards
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "refunds-test-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("NEXT_PUBLIC_PAYMENT_PROVIDER", "mock");
+
+  refunds = await import("@/lib/refunds");
+  orders = await import("@/lib/orders");
+  credits = await import("@/lib/credits");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("refundUndeliveredInterviews", () => {
+  it("credits back undelivered interviews once", async () => {
+    await recordFinishedOrder({ id: "credit_partial", jobId: "job_partial" }, 3);
+
+    const [first, second] = await Promise.all([
+      refunds.refundUndeliveredInterviews("job_partial"),
+      refunds.refundUndeliveredInterviews("job_partial"),
+    ]);
+    const third = await refunds.refundUndeliveredInterviews("job_partial");
+
+    expect(first).toMatchObject({ status: "issued", method: "credits", interviews: 2, amount: 2 });
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+
+    const { balance } = await credits.getCreditBalance("account");
+    expect(balance).toBe(2);
+  });
+
+  it("does not credit back twice when a pending refund is retried", async () => {
+    const order = await recordFinishedOrder({ id: "credit_retried", jobId: "job_retried" }, 0);
+    await credits.refundCredits("account", 5, order.id, "Credited back before an interruption");
+    const { balance } = await credits.getCreditBalance("account");
+
+    // As if the server stopped after the credit-back, before the refund was saved
+    await orders.updateOrder(order.id, {
+      refund: {
+        status: "pending",
+        method: "credits",
+        interviews: 5,
+        amount: 5,
+        currency: null,
+        reference: null,
+        createdAt: new Date().toISOString(),
+      },
+    });
+
+    const refund = await refunds.refundUndeliveredInterviews("job_retried");
+
+    expect(refund).toMatchObject({ status: "issued", interviews: 5 });
+    expect(refund?.reference).toEqual(expect.any(String));
+    expect((await credits.getCreditBalance("account")).balance).toBe(balance);
+  });
+
+  it("records the refund as pending before the provider issues it", async () => {
+    await recordFinishedOrder(
+      {
+        id: "cs_partial",
+        jobId: "job_checkout",
+        type: "checkout",
+        amount: 2500,
+        currency: "usd",
+      },
+      4
+    );
+
+    const refundCheckoutSession = vi
+      .spyOn(mockPaymentProvider, "refundCheckoutSession")
+      .mockImplementation(async () => {
+        const order = await orders.findOrder("cs_partial");
+        expect(order?.refund).toMatchObject({ status: "pending", interviews: 1, amount: 500 });
+
+        return { id: "re_test", amount: 500, currency: "usd" };
+      });
+    vi.spyOn(mockPaymentProvider, "updateCheckoutSessionMetadata").mockResolvedValue();
+
+    const refund = await refunds.refundUndeliveredInterviews("job_checkout");
+
+    expect(refundCheckoutSession).toHaveBeenCalledOnce();
+    expect(refund).toMatchObject({ status: "issued", method: "payment", reference: "re_test" });
+    expect((await orders.findOrder("cs_partial"))?.refund).toEqual(refund);
+  });
+
+  it("returns null when every interview was delivered", async () => {
+    await recordFinishedOrder({ id: "credit_complete", jobId: "job_complete" }, 5);
+
+    expect(await refunds.refundUndeliveredInterviews("job_complete")).toBeNull();
+  });
+});
+
+describe("getAccountRefund", () => {
+  it("reads the refund without issuing it", async () => {
+    await recordFinishedOrder({ id: "credit_unsettled", jobId: "job_unsettled" }, 0);
+    const { balance } = await credits.getCreditBalance("account");
+
+    expect(await refunds.getAccountRefund("account", "job_unsettled")).toEqual({
+      refund: null,
+      settled: false,
+    });
+    expect((await credits.getCreditBalance("account")).balance).toBe(balance);
+
+    const refund = await refunds.refundUndeliveredInterviews("job_unsettled");
+
+    expect(await refunds.getAccountRefund("account", "job_unsettled")).toEqual({
+      refund,
+      settled: true,
+    });
+  });
+
+  it("does not reveal the refunds of other accounts", async () => {
+    await recordFinishedOrder({ id: "credit_foreign", jobId: "job_foreign" }, 0);
+
+    await expect(refunds.getAccountRefund("other", "job_foreign")).rejects.toThrow(
+      JobNotFoundError
+    );
+    await expect(refunds.retryAccountRefund("other", "job_foreign")).rejects.toThrow(
+      JobNotFoundError
+    );
+    expect((await orders.findOrder("credit_foreign"))?.refund).toBeUndefined();
+  });
+});
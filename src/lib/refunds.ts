@@ -0,0 +1,250 @@
+/**
+ * Refunds for interviews that a finished generation job did not deliver.
+ *
+ * A failed job delivers nothing, and a completed job may deliver fewer interviews
+ * than were paid for. Orders paid through checkout are refunded pro rata through
+ * the payment provider, and orders paid with credits get the credits back. Orders
+ * are settled on the server as soon as their job is seen to finish, by the in-repo
+ * worker or when the order is synced with the generation service; clients only read
+ * the outcome. The job status is always fetched from the generation service, and
+ * each order is refunded at most once: the refund is recorded as pending before it
+ * is issued, and issuing it again for the same order has no further effect.
+ */
+
+import { Order, OrderRefund, RefundOrderResponse } from "@/types";
+import { refundCredits } from "@/lib/credits";
+import { JobNotFoundError } from "@/lib/generation-jobs";
+import { fetchOrderStatus, isOrderSettled } from "@/lib/order-history";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { findOrderByJobId, updateOrder } from "@/lib/orders";
+
+/**
+ * Refunds currently in progress, keyed by order ID.
+ * Lets concurrent requests for the same job share one refund.
+ */
+const pendingRefunds = new Map<string, Promise<OrderRefund | null>>();
+
+/**
+ * Creates the pending refund of an order's undelivered interviews.
+ *
+ * @param order - Order to refund
+ * @param interviews - Number of undelivered interviews
+ * @returns Refund to record before it is issued
+ */
+function createPendingRefund(order: Order, interviews: number): OrderRefund {
+  const createdAt = new Date().toISOString();
+
+  if (order.type === "credits") {
+    return {
+      status: "pending",
+      method: "credits",
+      interviews,
+      amount: interviews,
+      currency: null,
+      reference: null,
+      createdAt,
+    };
+  }
+
+  return {
+    status: "pending",
+    method: "payment",
+    interviews,
+    amount: Math.round(((order.amount ?? 0) * interviews) / order.interviews),
+    currency: order.currency,
+    reference: null,
+    createdAt,
+  };
+}
+
+/**
+ * Returns money or credits for an order's undelivered interviews. Both the provider
+ * refund and the credit-back are keyed to the order, so issuing a refund that was
+ * interrupted midway never pays out twice.
+ *
+ * @param order - Order to refund
+ * @param refund - Pending refund recorded on the order
+ * @returns Issued refund
+ */
+async function issueRefund(order: Order, refund: OrderRefund): Promise<OrderRefund> {
+  const { interviews } = refund;
+
+  if (refund.method === "credits") {
+    if (!order.accountId) {
+      throw new Error(`Order '${order.id}' has no account to credit`);
+    }
+
+    const { entries } = await refundCredits(
+      order.accountId,
+      interviews,
+      order.id,
+      `Returned ${interviews} credits for undelivered interviews`
+    );
+    const entry = entries.find(
+      ({ type, reference }) => type === "refund" && reference === order.id
+    );
+
+    return { ...refund, status: "issued", reference: entry?.id ?? null };
+  }
+
+  const provider = getPaymentProvider();
+  const issued = await provider.refundCheckoutSession(order.id, {
+    quantity: interviews,
+    totalQuantity: order.interviews,
+  });
+
+  // Recorded against the session so it shows up alongside the order in the provider
+  await provider.updateCheckoutSessionMetadata(order.id, {
+    refund_id: issued.id,
+    refunded_interviews: String(interviews),
+  });
+
+  return {
+    ...refund,
+    status: "issued",
+    amount: issued.amount,
+    currency: issued.currency,
+    reference: issued.id,
+  };
+}
+
+/**
+ * Refunds an order for the interviews its finished job did not deliver.
+ *
+ * @param order - Order whose job has finished
+ * @returns Issued refund, or null if every interview was delivered
+ * @throws Error if the job is still running
+ */
+async function settleOrder(order: Order): Promise<OrderRefund | null> {
+  const { order: synced } = await fetchOrderStatus(order);
+
+  if (synced.status === "pending") {
+    throw new Error("Job is still running");
+  }
+
+  const undelivered = Math.max(order.interviews - (synced.delivered ?? 0), 0);
+
+  if (undelivered === 0) {
+    return null;
+  }
+
+  // Recorded first, so a refund interrupted before it is saved is resumed, not forgotten
+  let refund = synced.refund;
+  if (!refund) {
+    refund = createPendingRefund(order, undelivered);
+    await updateOrder(order.id, { refund });
+  }
+
+  refund = await issueRefund(order, refund);
+  await updateOrder(order.id, { refund });
+
+  return refund;
+}
+
+/**
+ * Refunds the order behind a finished job for its undelivered interviews.
+ * Repeated calls return the refund issued by the first one, and a refund left
+ * pending by an earlier failure is issued again.
+ *
+ * @param jobId - Generation job ID
+ * @returns Issued refund, or null if every interview was delivered
+ * @throws Error if the job has no order or is still running
+ */
+export async function refundUndeliveredInterviews(
+  jobId: string
+): Promise<OrderRefund | null> {
+  const order = await findOrderByJobId(jobId);
+
+  if (!order) {
+    throw new Error(`No order found for job '${jobId}'`);
+  }
+
+  if (order.refund && order.refund.status !== "pending") {
+    return order.refund;
+  }
+
+  if (!order.interviews) {
+    throw new Error(`Order '${order.id}' has no recorded interview count`);
+  }
+
+  const pending = pendingRefunds.get(order.id);
+  if (pending) {
+    return pending;
+  }
+
+  const refund = settleOrder(order).finally(() => {
+    pendingRefunds.delete(order.id);
+  });
+  pendingRefunds.set(order.id, refund);
+
+  return refund;
+}
+
+/**
+ * Finds the order behind one of an account's jobs.
+ *
+ * @param accountId - Account asking for the job
+ * @param jobId - Generation job ID
+ * @returns Order of the job
+ * @throws JobNotFoundError if the job has no order, or its order belongs to another account
+ */
+async function findAccountJobOrder(accountId: string, jobId: string): Promise<Order> {
+  const order = await findOrderByJobId(jobId);
+
+  if (!order || order.accountId !== accountId) {
+    throw new JobNotFoundError(jobId);
+  }
+
+  return order;
+}
+
+/**
+ * Reads the refund recorded for one of an account's jobs, without issuing anything.
+ *
+ * @param accountId - Account asking for the refund
+ * @param jobId - Generation job ID
+ * @returns Recorded refund, and whether the order has been settled yet
+ * @throws JobNotFoundError if the job has no order, or its order belongs to another account
+ */
+export async function getAccountRefund(
+  accountId: string,
+  jobId: string
+): Promise<RefundOrderResponse> {
+  const order = await findAccountJobOrder(accountId, jobId);
+
+  return { refund: order.refund ?? null, settled: isOrderSettled(order) };
+}
+
+/**
+ * Settles the order behind one of an account's finished jobs, for when the server
+ * has not done so yet (e.g. a refund that failed and is still pending).
+ *
+ * @param accountId - Account asking for the refund
+ * @param jobId - Generation job ID
+ * @returns Issued refund (null if every interview was delivered) of the settled order
+ * @throws JobNotFoundError if the job has no order, or its order belongs to another account
+ * @throws Error if the job is still running
+ */
+export async function retryAccountRefund(
+  accountId: string,
+  jobId: string
+): Promise<RefundOrderResponse> {
+  await findAccountJobOrder(accountId, jobId);
+
+  return { refund: await refundUndeliveredInterviews(jobId), settled: true };
+}
+
+/**
+ * Settles the order of a finished job in the background.
+ * Failures are logged, and the refund is retried the next time the order is synced.
+ * Jobs without a recorded order yet are left for that sync as well.
+ *
+ * @param jobId - Generation job that has finished
+ */
+export function settleFinishedJob(jobId: string): void {
+  findOrderByJobId(jobId)
+    .then((order) => order && refundUndeliveredInterviews(jobId))
+    .catch((error) => {
+      console.error(`Job ${jobId}: refunding undelivered interviews failed:`, error);
+    });
+}
@@ -0,0 +1,159 @@
+/**
+ * Allowlist for the URLs checkout redirects back to.
+ *
+ * Return URLs come from the client, so they are only accepted when their origin is
+ * one of the configured origins and their path is one of the app's return pages.
+ * Anything else is rejected instead of being passed on to the payment provider,
+ * which would otherwise redirect buyers to any site.
+ */
+
+import { CheckoutReturnUrls } from "@/types";
+import {
+  CHECKOUT_RETURN_PATHS,
+  CHECKOUT_SESSION_ID_PLACEHOLDER,
+} from "@/constants/app";
+
+/**
+ * Error thrown when a requested return URL is missing or not allowed.
+ */
+export class ReturnUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnUrlError";
+  }
+}
+
+/**
+ * Return URLs requested by the client.
+ */
+export interface ReturnUrlRequest {
+  /** URL to redirect to after payment */
+  successUrl?: unknown;
+  /** URL to redirect to when the buyer cancels checkout */
+  cancelUrl?: unknown;
+  /** URL used for both destinations when they are not given separately */
+  returnUrl?: unknown;
+}
+
+/**
+ * Lists the origins checkout may redirect back to.
+ * Configured with the comma-separated `CHECKOUT_ALLOWED_ORIGINS`, and defaults to
+ * the app's own `NEXT_PUBLIC_APP_URL`. The origin a request claims to be made to
+ * comes from its Host headers, which the client controls, so it is never trusted.
+ *
+ * @returns Allowed origins, normalised (e.g. "https://example.com")
+ * @throws Error if neither variable is set, or a configured origin is not a valid URL
+ */
+export function getAllowedReturnOrigins(): string[] {
+  const allowed = process.env.CHECKOUT_ALLOWED_ORIGINS?.split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL?.trim();
+  const [variable, configured] = allowed?.length
+    ? ["CHECKOUT_ALLOWED_ORIGINS", allowed]
+    : ["NEXT_PUBLIC_APP_URL", appUrl ? [appUrl] : []];
+
+  if (!configured.length) {
+    throw new Error(
+      "Checkout return origins are not configured: set CHECKOUT_ALLOWED_ORIGINS or NEXT_PUBLIC_APP_URL"
+    );
+  }
+
+  return configured.map((origin) => {
+    if (!URL.canParse(origin)) {
+      throw new Error(`Invalid origin '${origin}' in ${variable}`);
+    }
+
+    return new URL(origin).origin;
+  });
+}
+
+/**
+ * Resolves a client-supplied return URL against the allowlist.
+ * Relative URLs are resolved against the first allowed origin; credentials and
+ * fragments are dropped.
+ *
+ * @param value - Requested URL
+ * @param label - Name of the URL in error messages (e.g. "Success URL")
+ * @param paths - Pages the URL may lead to
+ * @returns Absolute return URL
+ * @throws ReturnUrlError if the URL is missing, malformed or not allowed
+ * @throws Error if no return origins are configured
+ */
+export function resolveReturnUrl(
+  value: unknown,
+  label: string,
+  paths: readonly string[]
+): string {
+  const origins = getAllowedReturnOrigins();
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ReturnUrlError(`${label} is required`);
+  }
+
+  if (!URL.canParse(value, origins[0])) {
+    throw new ReturnUrlError(`${label} '${value}' is not a valid URL`);
+  }
+
+  const url = new URL(value, origins[0]);
+
+  if (!origins.includes(url.origin)) {
+    throw new ReturnUrlError(
+      `${label} must point to one of: ${origins.join(", ")}`
+    );
+  }
+
+  if (!paths.includes(url.pathname)) {
+    throw new ReturnUrlError(`${label} must be one of the pages: ${paths.join(", ")}`);
+  }
+
+  url.username = "";
+  url.password = "";
+  url.hash = "";
+
+  return url.toString();
+}
+
+/**
+ * Resolves the success and cancel destinations of a checkout request.
+ * `returnUrl` stands in for either destination that is not given.
+ *
+ * @param request - Return URLs from the request body
+ * @returns Allowed success and cancel URLs
+ * @throws ReturnUrlError if either destination is missing or not allowed
+ * @throws Error if no return origins are configured
+ */
+export function resolveReturnUrls({
+  successUrl,
+  cancelUrl,
+  returnUrl,
+}: ReturnUrlRequest): CheckoutReturnUrls {
+  return {
+    successUrl: resolveReturnUrl(
+      successUrl ?? returnUrl,
+      "Success URL",
+      CHECKOUT_RETURN_PATHS.SUCCESS
+    ),
+    cancelUrl: resolveReturnUrl(
+      cancelUrl ?? returnUrl,
+      "Cancel URL",
+      CHECKOUT_RETURN_PATHS.CANCEL
+    ),
+  };
+}
+
+/**
+ * Adds the query parameter that carries the checkout session ID to a success URL.
+ * The provider replaces the `{CHECKOUT_SESSION_ID}` placeholder, which must stay
+ * unencoded, so it is appended as text.
+ *
+ * @param successUrl - Allowed success URL
+ * @param param - Query parameter name
+ * @returns Success URL with the session parameter
+ */
+export function withSessionParam(successUrl: string, param: string): string {
+  const url = new URL(successUrl);
+  url.searchParams.delete(param);
+
+  return `${url.toString()}${url.search ? "&" : "?"}${param}=${CHECKOUT_SESSION_ID_PLACEHOLDER}`;
+}
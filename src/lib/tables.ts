@@ -0,0 +1,29 @@
+/**
+ * Tables exposed by the export and import API routes.
+ */
+
+/**
+ * Valid table names that can be exported and imported.
+ */
+export const VALID_TABLES = ['interviews'] as const;
+
+/**
+ * Name of a supported table.
+ */
+export type ValidTable = typeof VALID_TABLES[number];
+
+/**
+ * Validates that the provided table name is supported.
+ * 
+ * @param table - Table name to validate
+ * @throws Error if table name is invalid
+ */
+export function validateTableName(table: string): asserts table is ValidTable {
+  if (!table) {
+    throw new Error("Table name is required");
+  }
+  
+  if (!VALID_TABLES.includes(table as ValidTable)) {
+    throw new Error(`Table '${table}' not found. Supported tables: ${VALID_TABLES.join(', ')}`);
+  }
+}
@@ -100,6 +100,51 @@ export function truncateText(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
+/**
+ * Utility function to turn text into a lowercase, filename-safe slug.
+ *
+ * @param text - Text to slugify
+ * @param maxLength - Maximum slug length
+ * @returns Slug containing only letters, digits and single hyphens
+ *
+ * @example
+ * ```ts
+ * slugify('Technology, Information and Internet') // 'technology-information-and-internet'
+ * ```
+ */
+export function slugify(text: string, maxLength: number = 40): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Utility function to hash text into a 32-bit unsigned integer (FNV-1a).
+ * Not cryptographic; used to derive stable seeds from text.
+ *
+ * @param text - Text to hash
+ * @returns Hash between 0 and 2^32 - 1
+ *
+ * @example
+ * ```ts
+ * hashString('interview-1') === hashString('interview-1') // true
+ * ```
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
 /**
  * Utility function to format numbers with commas for better readability.
  * 
@@ -3,10 +3,31 @@
  * Provides reusable validation functions with consistent error messages.
  */
 
+import { 
+  InterviewFormErrors, 
+  InterviewFormValues, 
+  InterviewRequestBody 
+} from '@/types';
 import { 
   EXPERIENCE_RANGE_PATTERN, 
-  COMPANY_SIZE_PATTERN 
+  COMPANY_SIZE_PATTERN,
+  MIN_INTERVIEW_COUNT,
+  MAX_INTERVIEW_COUNT,
+  DEFAULT_PRICING_TIER,
+  PROMO_CODE_PATTERN,
 } from '@/constants/app';
+import { isPricingTierId } from '@/lib/pricing';
+
+/**
+ * Error raised when an interview generation request fails form validation.
+ * Carries field-level errors keyed by form input name.
+ */
+export class FormValidationError extends Error {
+  constructor(readonly errors: InterviewFormErrors) {
+    super('Please correct the highlighted fields');
+    this.name = 'FormValidationError';
+  }
+}
 
 /**
  * Validates that a string is not empty after trimming whitespace.
@@ -78,6 +99,13 @@ export function validateInterviewCount(
   min: number,
   max: number
 ): { isValid: boolean; error?: string } {
+  if (!Number.isInteger(count)) {
+    return {
+      isValid: false,
+      error: 'Interview count must be a whole number'
+    };
+  }
+  
   if (count < min) {
     return {
       isValid: false,
@@ -95,20 +123,34 @@ export function validateInterviewCount(
   return { isValid: true };
 }
 
+/**
+ * Validates the format of an optional promotion code.
+ * 
+ * @param code - Promotion code, upper case, or an empty string when none was entered
+ * @returns Validation result with success flag and optional error message
+ */
+export function validatePromoCode(code: string): { isValid: boolean; error?: string } {
+  if (code && !new RegExp(PROMO_CODE_PATTERN).test(code)) {
+    return {
+      isValid: false,
+      error: 'Promo codes contain only letters, numbers, dashes and underscores'
+    };
+  }
+  
+  return { isValid: true };
+}
+
 /**
  * Validates form data for interview generation.
+ * Shared by `InterviewForm` and the checkout route so both apply the same rules.
  * 
  * @param formData - Form data object containing user inputs
  * @returns Object with validation results for each field
  */
-export function validateInterviewForm(formData: {
-  role: string;
-  industry: string;
-  experienceRange: string;
-  employeeRange: string;
-  interviews: number;
-}) {
-  const errors: Record<string, string> = {};
+export function validateInterviewForm(
+  formData: InterviewFormValues
+): { isValid: boolean; errors: InterviewFormErrors } {
+  const errors: InterviewFormErrors = {};
   let isValid = true;
   
   // Validate required fields
@@ -138,11 +180,61 @@ export function validateInterviewForm(formData: {
   }
   
   // Validate interview count
-  const countValidation = validateInterviewCount(formData.interviews, 5, 20);
+  const countValidation = validateInterviewCount(
+    formData.interviews,
+    MIN_INTERVIEW_COUNT,
+    MAX_INTERVIEW_COUNT
+  );
   if (!countValidation.isValid) {
     errors.interviews = countValidation.error!;
     isValid = false;
   }
   
+  // Validate pricing tier
+  if (!isPricingTierId(formData.tier)) {
+    errors.tier = 'Select a valid plan';
+    isValid = false;
+  }
+  
+  // Validate the optional promotion code's format; redeemability is checked at checkout
+  const promoCodeValidation = validatePromoCode(formData.promoCode ?? '');
+  if (!promoCodeValidation.isValid) {
+    errors.promoCode = promoCodeValidation.error!;
+    isValid = false;
+  }
+  
   return { isValid, errors };
-}
\ No newline at end of file
+}
+
+/**
+ * Validates an interview generation request body with the same rules as the form.
+ * Used by the API routes that accept form data (checkout and credit spending).
+ * 
+ * @param body - Parsed request body
+ * @returns Validated form values, trimmed
+ * @throws FormValidationError with field-level errors keyed by form input name
+ */
+export function validateInterviewRequest(
+  body: Partial<InterviewRequestBody>
+): InterviewFormValues {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  
+  const values: InterviewFormValues = {
+    role: text(body.role),
+    industry: text(body.industry),
+    experienceRange: text(body.range),
+    employeeRange: text(body.employee_range),
+    interviews: typeof body.interviews === 'number' ? body.interviews : NaN,
+    // Unknown tiers are kept so validation reports them
+    tier: body.tier ?? DEFAULT_PRICING_TIER,
+    promoCode: text(body.promo_code).toUpperCase() || undefined,
+  };
+  
+  const { isValid, errors } = validateInterviewForm(values);
+  
+  if (!isValid) {
+    throw new FormValidationError(errors);
+  }
+  
+  return values;
+}
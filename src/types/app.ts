@@ -1,4 +1,7 @@
 import { Interview } from "./interview";
+import { ExportColumn } from "./export";
+import { InterviewProfile } from "./profile";
+import { ActiveJob } from "./job";
 
 /**
  * Application context type definition for managing global interview state.
@@ -14,4 +17,28 @@ export interface AppContextType {
   setInterviewing: React.Dispatch<React.SetStateAction<boolean>>;
   /** State setter function to update the interviews array */
   setInterviews: React.Dispatch<React.SetStateAction<Interview[]>>;
+  /** Interview fields included in exports, in export order */
+  exportColumns: ExportColumn[];
+  /** State setter function to update the selected export columns */
+  setExportColumns: React.Dispatch<React.SetStateAction<ExportColumn[]>>;
+  /** ID of the generation job being tracked, if any */
+  jobId: string | null;
+  /** State setter function to update the tracked job ID */
+  setJobId: React.Dispatch<React.SetStateAction<string | null>>;
+  /** Customer profile the displayed interviews were generated for, if known */
+  profile: InterviewProfile | null;
+  /** State setter function to update the displayed customer profile */
+  setProfile: React.Dispatch<React.SetStateAction<InterviewProfile | null>>;
+  /** When the displayed interviews' job was started (ISO 8601), if known */
+  generatedAt: string | null;
+  /** State setter function to update the generation time of the displayed interviews */
+  setGeneratedAt: React.Dispatch<React.SetStateAction<string | null>>;
+  /** Jobs started in this browser whose results have not been shown yet, most recent first */
+  activeJobs: ActiveJob[];
+  /** Saves a job so it can be resumed after a reload or after closing the tab */
+  trackJob: (job: ActiveJob) => void;
+  /** Forgets a job once its results have been shown or it can no longer be followed */
+  untrackJob: (jobId: string) => void;
+  /** Makes a saved job the tracked job, showing its progress and then its results */
+  resumeJob: (job: ActiveJob) => void;
 }
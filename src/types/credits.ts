@@ -0,0 +1,40 @@
+/**
+ * Single change to an account's credit balance.
+ * One credit pays for one generated interview.
+ */
+export interface CreditLedgerEntry {
+  /** Unique entry identifier */
+  id: string;
+  /** Account the entry belongs to */
+  accountId: string;
+  /** Purchase of a credit pack, consumption by a generation run, or a credit-back */
+  type: "purchase" | "consumption" | "refund";
+  /** Change in credits: positive for purchases and refunds, negative for consumption */
+  amount: number;
+  /** Checkout session ID or generation order ID the entry was recorded for */
+  reference: string;
+  /** Human-readable description of the entry */
+  description: string;
+  /** When the entry was recorded (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Credit balance of an account with its ledger history.
+ */
+export interface CreditBalance {
+  /** Credits currently available */
+  balance: number;
+  /** Ledger entries, most recent first */
+  entries: CreditLedgerEntry[];
+}
+
+/**
+ * Response returned after spending credits on a generation run.
+ */
+export interface SpendCreditsResponse extends CreditBalance {
+  /** Credit order paid for */
+  orderId: string;
+  /** Job generating the interviews */
+  jobId: string;
+}
@@ -1,4 +1,5 @@
 import { Interview } from "./interview";
+import { InterviewProfile } from "./profile";
 
 /**
  * Export configuration interface for downloading interview data.
@@ -14,3 +15,28 @@ export interface Export {
   /** Optional default filename for the exported file */
   defaultFileName?: string;
 }
+
+/**
+ * Interview field that can be selected as an export column.
+ */
+export type ExportColumn = keyof Interview;
+
+/**
+ * Versioned JSON export document.
+ * Wraps exported interviews with the metadata describing how they were generated.
+ * Published as a JSON Schema at `/schemas/interview-export.v1.schema.json`.
+ */
+export interface InterviewExportEnvelope {
+  /** Envelope format version, incremented on breaking changes */
+  schemaVersion: 1;
+  /** ISO 8601 timestamp of when the interviews were generated, or null if unknown */
+  generatedAt: string | null;
+  /** ISO 8601 timestamp of when the interviews were exported */
+  exportedAt: string;
+  /** Customer profile the interviews were generated for */
+  profile: InterviewProfile;
+  /** Labels of the exported questions, keyed by interview field */
+  questionLabels: Partial<Record<ExportColumn, string>>;
+  /** Exported interviews, limited to the selected columns */
+  interviews: Partial<Interview>[];
+}
@@ -0,0 +1,49 @@
+import { PricingTierId } from "./pricing";
+
+/**
+ * Values of the interview generation form, keyed by input name.
+ * Validated by `validateInterviewForm` on both the client and the checkout route.
+ */
+export interface InterviewFormValues {
+  /** Job role for the interview generation */
+  role: string;
+  /** Industry sector */
+  industry: string;
+  /** Experience range (e.g., "2-7") */
+  experienceRange: string;
+  /** Company size range (e.g., "100-1000") */
+  employeeRange: string;
+  /** Number of interviews to generate */
+  interviews: number;
+  /** Pricing tier of the run */
+  tier: PricingTierId;
+  /** Optional promotion code, in upper case */
+  promoCode?: string;
+}
+
+/**
+ * Field-level validation errors for the interview generation form.
+ * Only fields that failed validation are present.
+ */
+export type InterviewFormErrors = Partial<Record<keyof InterviewFormValues, string>>;
+
+/**
+ * Interview generation request as sent to the checkout and credit routes.
+ * Field names match the checkout session metadata.
+ */
+export interface InterviewRequestBody {
+  /** Job role for the interview generation */
+  role: string;
+  /** Industry sector */
+  industry: string;
+  /** Experience range (e.g., "2-7") */
+  range: string;
+  /** Company size range (e.g., "100-1000") */
+  employee_range: string;
+  /** Number of interviews to generate */
+  interviews: number;
+  /** Pricing tier of the run, standard if omitted */
+  tier?: PricingTierId;
+  /** Optional promotion code */
+  promo_code?: string;
+}
@@ -2,3 +2,10 @@ export * from "./app";
 export * from "./job";
 export * from "./export";
 export * from "./interview";
+export * from "./profile";
+export * from "./form";
+export * from "./payment";
+export * from "./credits";
+export * from "./order";
+export * from "./pricing";
+export * from "./llm";
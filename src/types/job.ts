@@ -1,4 +1,6 @@
 import { Interview } from "./interview";
+import { InterviewProfile } from "./profile";
+import { PricingTierId } from "./pricing";
 
 /**
  * Response structure for interview generation job initiation.
@@ -9,6 +11,27 @@ export interface JobResponse {
   jobId: string;
 }
 
+/**
+ * Response of the checkout fulfilment route: the session's job, and the customer
+ * profile recorded in the session metadata so it can be shown with the results.
+ */
+export interface FulfillCheckoutResponse extends JobResponse {
+  /** Customer profile the interviews are generated for */
+  profile: InterviewProfile | null;
+}
+
+/**
+ * Request body for starting interview generation.
+ */
+export interface StartInterviewsRequest {
+  /** Checkout session ID, or credit order ID for runs paid with credits */
+  sessionId: string;
+  /** Customer profile, sent for credit orders since they have no checkout session metadata */
+  profile?: InterviewProfile;
+  /** Number of interviews to generate, sent for credit orders */
+  interviews?: number;
+}
+
 /**
  * Job status structure for tracking interview generation progress.
  * Used to poll the status of ongoing interview generation jobs.
@@ -16,10 +39,94 @@ export interface JobResponse {
 export interface JobStatus {
   /** Current status of the job - pending while processing, completed when done, failed on error */
   status: "pending" | "completed" | "failed";
-  /** Generated interview data, only present when status is "completed" */
+  /**
+   * Generated interview data: the interviews generated so far while "pending",
+   * all of them once "completed"
+   */
   data?: Interview[];
   /** Error message if job failed, only present when status is "failed" */
   error?: string;
   /** Completion percentage (0-100), used during pending status to show progress */
   progress?: number;
+  /** Number of interviews still to be generated, during pending status */
+  remaining?: number;
+}
+
+/**
+ * Generation job as stored by the in-repo generation service.
+ * Exposed to clients only through `JobStatus`.
+ */
+export interface GenerationJob {
+  /** Job ID */
+  id: string;
+  /** Checkout session ID, or credit order ID, the job was started for */
+  sessionId: string;
+  /** Customer profile to generate interviews for */
+  profile: InterviewProfile;
+  /** Number of interviews to generate */
+  interviews: number;
+  /** Pricing tier of the run, which sets the depth of the answers */
+  tier: PricingTierId;
+  /** Current job status */
+  status: JobStatus["status"];
+  /** Number of interviews attempted so far, whether or not they succeeded */
+  processed: number;
+  /** Interviews generated so far */
+  results: Interview[];
+  /** Reason the job failed, if it did */
+  error?: string;
+  /** ISO timestamp of when the job was started */
+  createdAt: string;
+  /** ISO timestamp of the last change to the job */
+  updatedAt: string;
+}
+
+/**
+ * Progress of a job, as pushed on its event stream.
+ */
+export interface JobProgress {
+  /** Completion percentage (0-100) */
+  progress: number;
+  /** Number of interviews attempted so far, whether or not they succeeded */
+  processed: number;
+  /** Number of interviews to generate */
+  interviews: number;
+}
+
+/**
+ * Progress after one interview of a job was generated, or skipped after failing.
+ */
+export interface JobInterviewProgress extends JobProgress {
+  /** Position of the interview in the batch */
+  index: number;
+  /** Whether the interview failed and was left out of the results */
+  skipped: boolean;
+  /** Generated interview, absent if it was skipped */
+  interview?: Interview;
+}
+
+/**
+ * Event pushed on a job's event stream, sent as a Server-Sent Event named by `type`
+ * with `data` as its JSON payload. A stream first sends the job's current state,
+ * as `progress` with the pending status or a final event, and ends after
+ * `completed` or `failed`.
+ */
+export type JobEvent =
+  | { type: "progress"; data: JobStatus }
+  | { type: "interview"; data: JobInterviewProgress }
+  | { type: "completed" | "failed"; data: JobStatus };
+
+/**
+ * Generation job followed by the browser, saved so the app can pick it up again
+ * after a reload or after the tab was closed.
+ */
+export interface ActiveJob {
+  /** Checkout session ID, or credit order ID, the job was started for */
+  sessionId: string;
+  /** Job ID */
+  jobId: string;
+  /** Customer profile the interviews are generated for, if known */
+  profile: InterviewProfile | null;
+  /** ISO timestamp of when the job was started */
+  startedAt: string;
 }
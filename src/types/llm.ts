@@ -0,0 +1,46 @@
+import { Interview } from "./interview";
+import { InterviewProfile } from "./profile";
+import { PricingTierId } from "./pricing";
+
+/**
+ * Names of the available LLM provider implementations.
+ */
+export type LlmProviderName = "stub" | "openai" | "anthropic";
+
+/**
+ * Prompt for generating one interview.
+ */
+export interface InterviewPrompt {
+  /** Instructions describing the interview and the JSON object to answer with */
+  system: string;
+  /** Description of the interviewee */
+  user: string;
+  /** Identifies the interview; providers that support seeding give the same answers for the same seed */
+  seed: string;
+  /** What the prompt was built from, for providers that do not read prompt text */
+  context: {
+    /** Customer profile of the interviewee */
+    profile: InterviewProfile;
+    /** Pricing tier of the run, which sets the depth of the answers */
+    tier: PricingTierId;
+    /** Position of the interview in its batch */
+    index: number;
+  };
+}
+
+/**
+ * Large language model that interviews are generated with.
+ * Implementations live in `src/lib/llm-*.ts` and are selected with `LLM_PROVIDER`.
+ */
+export interface LlmProvider {
+  /** Provider name */
+  name: LlmProviderName;
+  /**
+   * Generates one interview.
+   *
+   * @param prompt - Interview prompt
+   * @returns Promise resolving to the interview, with the role and industry of the prompt
+   * @throws Error if the model cannot be reached or does not answer with a valid interview
+   */
+  generateInterview(prompt: InterviewPrompt): Promise<Interview>;
+}
@@ -0,0 +1,96 @@
+import { Interview } from "./interview";
+import { JobStatus } from "./job";
+import { PricingTierId } from "./pricing";
+import { InterviewProfile } from "./profile";
+
+/**
+ * How an order was paid for: a checkout session, or prepaid credits.
+ */
+export type OrderType = "checkout" | "credits";
+
+/**
+ * Refund or credit-back for interviews an order's job did not deliver.
+ * Recorded as pending before the provider is asked for it, so a refund interrupted
+ * midway is completed rather than forgotten or issued twice.
+ */
+export interface OrderRefund {
+  /** Whether the refund has been issued; refunds recorded before this field count as issued */
+  status: "pending" | "issued";
+  /** Money returned through the payment provider, or credits returned to the ledger */
+  method: "payment" | "credits";
+  /** Number of undelivered interviews refunded */
+  interviews: number;
+  /**
+   * Amount refunded: in the currency's minor unit for payments, in credits otherwise.
+   * Pro-rated from the amount paid while pending, then as reported by the provider.
+   */
+  amount: number;
+  /** ISO currency code for payment refunds, null for credit-backs */
+  currency: string | null;
+  /** Provider refund ID or credit ledger entry ID, null while pending */
+  reference: string | null;
+  /** When the refund was issued (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Generation run that was paid for, linking the payment to its job.
+ */
+export interface Order {
+  /** Checkout session ID, or credit order ID for runs paid with credits */
+  id: string;
+  /** How the order was paid for */
+  type: OrderType;
+  /** Account that placed the order, if known */
+  accountId: string | null;
+  /** Job generating the order's interviews */
+  jobId: string;
+  /** Number of interviews paid for */
+  interviews: number;
+  /** Customer profile the interviews were generated for */
+  profile: InterviewProfile | null;
+  /** Pricing tier of the run */
+  tier: PricingTierId | null;
+  /** Amount paid in the currency's minor unit, or null for orders paid with credits */
+  amount: number | null;
+  /** ISO currency code of `amount`, or null for orders paid with credits */
+  currency: string | null;
+  /** Promotion code redeemed at checkout, if any */
+  promoCode: string | null;
+  /** Last known status of the order's job */
+  status: JobStatus["status"];
+  /** Number of interviews delivered, once the job has completed */
+  delivered?: number;
+  /** When the order's job was started (ISO 8601) */
+  createdAt: string;
+  /** Refund for undelivered interviews, once issued */
+  refund?: OrderRefund;
+}
+
+/**
+ * Response listing the orders of the current account.
+ */
+export interface OrdersResponse {
+  /** Orders, most recent first */
+  orders: Order[];
+}
+
+/**
+ * Response with a single order and its generated interviews.
+ */
+export interface OrderDetailsResponse {
+  /** Order */
+  order: Order;
+  /** Interviews generated for the order, empty until its job has completed */
+  interviews: Interview[];
+}
+
+/**
+ * Response with the settlement of a finished job's order.
+ */
+export interface RefundOrderResponse {
+  /** Refund for undelivered interviews, or null if every interview was delivered */
+  refund: OrderRefund | null;
+  /** Whether the order has been settled; until then `refund` may still change */
+  settled: boolean;
+}
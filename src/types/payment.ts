@@ -0,0 +1,103 @@
+import { PriceQuote, PromotionCode } from "./pricing";
+
+/**
+ * Names of the available payment provider implementations.
+ */
+export type PaymentProviderName = "stripe" | "mock";
+
+/**
+ * Provider-independent view of a checkout session.
+ */
+export interface CheckoutSession {
+  /** Provider session ID, passed back to the app as `session_id` */
+  id: string;
+  /** Provider that created the session */
+  provider: PaymentProviderName;
+  /** Hosted checkout page to redirect the buyer to */
+  url: string | null;
+  /** Whether the session has been paid for */
+  paymentStatus: "paid" | "unpaid";
+  /** Amount charged in the currency's minor unit, after discounts */
+  amountTotal: number | null;
+  /** ISO currency code, lowercase */
+  currency: string | null;
+  /** Form data and fulfilment state stored with the session */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Destinations checkout redirects back to, resolved against the return URL allowlist.
+ */
+export interface CheckoutReturnUrls {
+  /** Redirect after payment */
+  successUrl: string;
+  /** Redirect when the buyer cancels checkout */
+  cancelUrl: string;
+}
+
+/**
+ * Parameters for creating a checkout session.
+ */
+export interface CreateCheckoutSessionParams {
+  /** Name of the purchase shown on the checkout page (e.g. "Standard interviews") */
+  productName: string;
+  /** Price of the purchase; each quote line becomes a checkout line item */
+  price: PriceQuote;
+  /** Promotion code applied to the purchase, already reflected in `price` */
+  promotion: PromotionCode | null;
+  /** Redirect after payment; `{CHECKOUT_SESSION_ID}` is replaced with the session ID */
+  successUrl: string;
+  /** Redirect when the buyer cancels checkout */
+  cancelUrl: string;
+  /** Form data and fulfilment state to store with the session */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Parameters for refunding part or all of a paid checkout session.
+ */
+export interface RefundCheckoutSessionParams {
+  /** Number of interviews to refund */
+  quantity: number;
+  /** Number of interviews paid for, used to pro-rate the refund */
+  totalQuantity: number;
+}
+
+/**
+ * Refund issued by a payment provider.
+ */
+export interface CheckoutRefund {
+  /** Provider refund ID */
+  id: string;
+  /** Amount refunded in the currency's minor unit (e.g. cents) */
+  amount: number;
+  /** ISO currency code, lowercase */
+  currency: string;
+}
+
+/**
+ * Server-side payment provider used by the checkout and fulfilment routes.
+ */
+export interface PaymentProvider {
+  /** Provider name, also used to select the client-side redirect */
+  name: PaymentProviderName;
+  /** Creates a hosted checkout session for the purchase */
+  createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession>;
+  /** Finds a redeemable promotion code, or returns null if it is unknown or expired */
+  findPromotionCode(code: string): Promise<PromotionCode | null>;
+  /** Retrieves a checkout session by ID */
+  retrieveCheckoutSession(sessionId: string): Promise<CheckoutSession>;
+  /** Merges the given keys into the session metadata */
+  updateCheckoutSessionMetadata(
+    sessionId: string,
+    metadata: Record<string, string>
+  ): Promise<void>;
+  /**
+   * Refunds the share of a paid session's amount covering the given interviews.
+   * A session is refunded at most once: retries return the first refund.
+   */
+  refundCheckoutSession(
+    sessionId: string,
+    params: RefundCheckoutSessionParams
+  ): Promise<CheckoutRefund>;
+}
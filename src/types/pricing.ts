@@ -0,0 +1,86 @@
+/**
+ * Identifiers of the available pricing tiers.
+ */
+export type PricingTierId = "standard" | "premium";
+
+/**
+ * Per-interview price for a range of interviews within a batch.
+ */
+export interface PriceBand {
+  /** Last interview in the batch priced by this band, or null for all remaining interviews */
+  upTo: number | null;
+  /** Price per interview in the currency's minor unit (e.g. cents) */
+  unitAmount: number;
+}
+
+/**
+ * Pricing tier selectable in the interview form.
+ */
+export interface PricingTier {
+  /** Tier identifier, stored in checkout session metadata as `tier` */
+  id: PricingTierId;
+  /** Display name */
+  label: string;
+  /** What the tier includes */
+  description: string;
+  /** Graduated volume pricing, in ascending order of `upTo` */
+  bands: readonly PriceBand[];
+}
+
+/**
+ * Line of a price quote covering the interviews priced by one band.
+ */
+export interface PriceQuoteLine {
+  /** Interviews covered by the line (e.g. "1-10") */
+  label: string;
+  /** Number of interviews covered */
+  quantity: number;
+  /** Price per interview in the currency's minor unit */
+  unitAmount: number;
+  /** Line total in the currency's minor unit */
+  amount: number;
+}
+
+/**
+ * Price of a batch of interviews, shared by the form preview and checkout line items.
+ */
+export interface PriceQuote {
+  /** Pricing tier the batch is priced with */
+  tier: PricingTierId;
+  /** Number of interviews in the batch */
+  interviews: number;
+  /** ISO currency code, lowercase */
+  currency: string;
+  /** One line per price band used */
+  lines: PriceQuoteLine[];
+  /** Sum of the lines in the currency's minor unit */
+  subtotal: number;
+  /** Promotion code applied to the quote, if any */
+  promoCode: string | null;
+  /** Discount from the promotion code in the currency's minor unit */
+  discount: number;
+  /** Amount charged (subtotal less discount) in the currency's minor unit */
+  total: number;
+}
+
+/**
+ * Promotion code redeemable at checkout.
+ */
+export interface PromotionCode {
+  /** Code as entered by the buyer, in upper case */
+  code: string;
+  /** Payment provider's promotion code ID, or null for codes from the local discount table */
+  id: string | null;
+  /** Percentage taken off the subtotal, if a percentage discount */
+  percentOff: number | null;
+  /** Amount taken off the subtotal in the currency's minor unit, if a fixed discount */
+  amountOff: number | null;
+}
+
+/**
+ * Response returned when checking a promotion code from the form.
+ */
+export interface PromoCodeResponse {
+  /** Price of the selected batch with the code applied */
+  price: PriceQuote;
+}
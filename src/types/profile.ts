@@ -0,0 +1,16 @@
+/**
+ * Ideal customer profile (ICP) that a batch of interviews was generated for.
+ * Field names mirror the checkout session metadata so profiles can be passed through unchanged.
+ */
+export interface InterviewProfile {
+  /** Job role of the interviewees (e.g., "Software Engineer") */
+  role: string;
+  /** Industry sector (e.g., "Technology, Information and Internet") */
+  industry: string;
+  /** Years of experience range (e.g., "2-7") */
+  range: string;
+  /** Company size range in employees (e.g., "100-1000") */
+  employee_range: string;
+  /** Country the interviewees are based in (e.g., "USA") */
+  country?: string;
+}